@@ -0,0 +1,92 @@
+// Agent 路由 - 按消息前缀、/agent 选择、用户 / 群映射解析 OpenClaw Agent，/agent 选择持久化到磁盘
+
+import { JsonFile } from './json-file';
+import type { AgentsConfig } from './types';
+
+export type AgentRouteSource = 'prefix' | 'selected' | 'user' | 'group' | 'default';
+
+export interface AgentRoute {
+  /** Agent ID，空字符串表示 Gateway 的默认 Agent */
+  agent: string;
+  source: AgentRouteSource;
+}
+
+export interface AgentSubject {
+  userId: number | string;
+  groupId?: number | string;
+  /** /agent 选择按会话保存（群共享 session 时对整个群生效） */
+  sessionBase: string;
+}
+
+export const AGENT_SOURCE_LABELS: Record<AgentRouteSource, string> = {
+  prefix: '消息前缀',
+  selected: '/agent 选择',
+  user: '用户配置',
+  group: '群配置',
+  default: '默认',
+};
+
+const AGENT_ID_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+/** Agent ID 会拼入 sessionKey 与 CLI 参数，仅允许字母、数字、- 与 _ */
+export function isValidAgentId(id: string): boolean {
+  return AGENT_ID_RE.test(id);
+}
+
+/** 带 Agent 的 sessionKey 与 Gateway 一致：agent:<id>:<key>；默认 Agent 不加前缀 */
+export function agentSessionKey(agent: string, key: string): string {
+  return agent ? `agent:${agent}:${key}` : key;
+}
+
+/**
+ * 匹配消息开头的 Agent 前缀（如 "#coder 帮我看看"），前缀后须为空白或结尾。
+ * 返回 Agent 与去除前缀后的文本，未匹配返回 null。
+ */
+export function matchAgentPrefix(config: AgentsConfig, text: string): { agent: string; text: string } | null {
+  const trimmed = text.trimStart();
+  const prefixes = Object.keys(config.prefixes || {}).sort((a, b) => b.length - a.length);
+  for (const prefix of prefixes) {
+    const agent = config.prefixes[prefix];
+    if (!prefix || !agent || !isValidAgentId(agent)) continue;
+    if (!trimmed.toLowerCase().startsWith(prefix.toLowerCase())) continue;
+    const rest = trimmed.slice(prefix.length);
+    if (rest && !/^\s/.test(rest)) continue;
+    return { agent, text: rest.trim() };
+  }
+  return null;
+}
+
+export class AgentRouter {
+  private selections = new Map<string, string>();
+  private file = new JsonFile(() => ({ selections: Object.fromEntries(this.selections) }));
+
+  load(filePath: string | null): void {
+    this.selections.clear();
+    const data = this.file.open(filePath);
+    for (const [sessionBase, agent] of Object.entries<string>(data?.selections || {})) {
+      if (typeof agent === 'string' && isValidAgentId(agent)) this.selections.set(sessionBase, agent);
+    }
+  }
+
+  /** 解析 Agent：/agent 选择 > 用户映射 > 群映射 > 默认（消息前缀由调用方先行处理） */
+  resolve(config: AgentsConfig, subject: AgentSubject): AgentRoute {
+    const selected = this.selections.get(subject.sessionBase);
+    if (selected) return { agent: selected, source: 'selected' };
+    const byUser = config.users?.[String(subject.userId)];
+    if (byUser && isValidAgentId(byUser)) return { agent: byUser, source: 'user' };
+    const byGroup = subject.groupId != null ? config.groups?.[String(subject.groupId)] : undefined;
+    if (byGroup && isValidAgentId(byGroup)) return { agent: byGroup, source: 'group' };
+    return { agent: isValidAgentId(config.default) ? config.default : '', source: 'default' };
+  }
+
+  /** 设置或清除（agent 为 null）会话的 Agent 选择，立即写盘 */
+  select(sessionBase: string, agent: string | null): void {
+    if (agent) this.selections.set(sessionBase, agent);
+    else this.selections.delete(sessionBase);
+    this.flush();
+  }
+
+  flush(): void {
+    this.file.flush();
+  }
+}
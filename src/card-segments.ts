@@ -0,0 +1,149 @@
+// 卡片消息解码 - 将 json / xml / location / music / share 消息段转为简短文本
+
+export interface CardInfo {
+  kind: string;
+  title?: string;
+  desc?: string;
+  source?: string;
+  url?: string;
+}
+
+const MAX_FIELD_LENGTH = 200;
+
+function clip(text: unknown): string | undefined {
+  if (typeof text !== 'string') return undefined;
+  const t = text.replace(/\s+/g, ' ').trim();
+  if (!t) return undefined;
+  return t.length > MAX_FIELD_LENGTH ? t.slice(0, MAX_FIELD_LENGTH) + '…' : t;
+}
+
+/** 卡片字段类型不可靠（可能是数字、对象等），取第一个非空字符串 */
+function firstString(...values: unknown[]): string | undefined {
+  for (const v of values) {
+    if (typeof v === 'string' && v.trim()) return v.trim();
+  }
+  return undefined;
+}
+
+export function formatCard(card: CardInfo): string {
+  const parts: string[] = [];
+  if (card.title) parts.push(card.title);
+  if (card.desc && card.desc !== card.title) parts.push(card.desc);
+  if (card.source) parts.push(`来源: ${card.source}`);
+  if (card.url) parts.push(`链接: ${card.url}`);
+  return `[${card.kind}: ${parts.join(' | ') || '无法解析的卡片'}]`;
+}
+
+// ========== JSON (Ark) ==========
+
+/**
+ * 解析 QQ Ark 卡片（分享链接、小程序、音乐、位置等）。
+ * 卡片结构各异，按常见的 meta 字段依次尝试。
+ */
+export function decodeJsonCard(raw: unknown): CardInfo {
+  let card: any = raw;
+  if (typeof raw === 'string') {
+    try { card = JSON.parse(raw); } catch { return { kind: '卡片' }; }
+  }
+  if (!card || typeof card !== 'object') return { kind: '卡片' };
+
+  const meta = card.meta && typeof card.meta === 'object' ? card.meta : {};
+  const prompt = firstString(card.prompt);
+  const appName = clip(prompt?.replace(/^\[[^\]]*\]/, ''));
+
+  // 小程序：detail_1.title 是小程序名称，desc 才是内容标题
+  if (meta.detail_1 && typeof meta.detail_1 === 'object') {
+    const d = meta.detail_1;
+    return {
+      kind: '小程序',
+      title: clip(d.desc),
+      source: clip(d.title) || appName,
+      url: firstString(d.qqdocurl, d.url),
+    };
+  }
+
+  const location = meta['Location.Search'];
+  if (location && typeof location === 'object') {
+    const coords = location.lat && location.lng ? `(${location.lat}, ${location.lng})` : undefined;
+    return { kind: '位置', title: clip(location.name), desc: clip([firstString(location.address), coords].filter(Boolean).join(' ')) };
+  }
+
+  if (meta.music && typeof meta.music === 'object') {
+    const m = meta.music;
+    return { kind: '音乐', title: clip(m.title), desc: clip(m.desc), source: clip(m.tag), url: firstString(m.jumpUrl, m.musicUrl) };
+  }
+
+  // 分享链接 / 公众号文章 / 其他结构化卡片
+  const first: any = [meta.news, meta.detail, ...Object.values(meta)].find((v) => v && typeof v === 'object');
+  if (first) {
+    return {
+      kind: '分享',
+      title: clip(first.title),
+      desc: clip(firstString(first.desc, first.summary)),
+      source: clip(firstString(first.tag, first.source?.name, first.appName)),
+      url: firstString(first.jumpUrl, first.qqdocurl, first.url),
+    };
+  }
+
+  return { kind: '卡片', title: clip(prompt), desc: clip(card.desc) };
+}
+
+// ========== XML ==========
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlTag(xml: string, tag: string): string | undefined {
+  const m = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`));
+  return m ? decodeXmlEntities(m[1]) : undefined;
+}
+
+function xmlAttr(xml: string, tag: string, attr: string): string | undefined {
+  const tagMatch = xml.match(new RegExp(`<${tag}\\s[^>]*>`));
+  if (!tagMatch) return undefined;
+  const m = tagMatch[0].match(new RegExp(`\\s${attr}="([^"]*)"`));
+  return m ? decodeXmlEntities(m[1]) : undefined;
+}
+
+export function decodeXmlCard(raw: unknown): CardInfo {
+  if (typeof raw !== 'string' || !raw) return { kind: '卡片' };
+  return {
+    kind: '分享',
+    title: clip(xmlTag(raw, 'title')) || clip(xmlAttr(raw, 'msg', 'brief')),
+    desc: clip(xmlTag(raw, 'summary')),
+    source: clip(xmlAttr(raw, 'source', 'name')),
+    url: xmlAttr(raw, 'msg', 'url'),
+  };
+}
+
+// ========== OneBot Standard Cards ==========
+
+export function decodeLocation(data: Record<string, any>): CardInfo {
+  const coords = data.lat && data.lon ? `(${data.lat}, ${data.lon})` : undefined;
+  return { kind: '位置', title: clip(data.title), desc: clip([firstString(data.content), coords].filter(Boolean).join(' ')) };
+}
+
+const MUSIC_PLATFORMS: Record<string, string> = { qq: 'QQ音乐', '163': '网易云音乐', kugou: '酷狗音乐', migu: '咪咕音乐', kuwo: '酷我音乐' };
+
+export function decodeMusic(data: Record<string, any>): CardInfo {
+  const source = MUSIC_PLATFORMS[data.type] || (data.type === 'custom' ? undefined : firstString(data.type));
+  const url = firstString(data.url) || (data.type === 'qq' && data.id ? `https://y.qq.com/n/ryqq/songDetail/${data.id}` : undefined)
+    || (data.type === '163' && data.id ? `https://music.163.com/song?id=${data.id}` : undefined);
+  return {
+    kind: '音乐',
+    title: clip(data.title) || (data.id ? `歌曲 ${data.id}` : undefined),
+    desc: clip(data.content),
+    source,
+    url,
+  };
+}
+
+export function decodeShare(data: Record<string, any>): CardInfo {
+  return { kind: '分享', title: clip(data.title), desc: clip(data.content), url: firstString(data.url) };
+}
@@ -10,19 +10,90 @@ export const DEFAULT_CONFIG: PluginConfig = {
   behavior: {
     privateChat: true,
     groupAtOnly: true,
-    adminQQ: [],
-    commandAdminOnly: false,
-    userWhitelist: [],
     groupWhitelist: [],
-    groupBypassUserWhitelist: false,
-    userBlacklist: [],
+    groupBlacklist: [],
     debounceMs: 2000,
     resolveReply: true,
     replyMaxDepth: 1,
+    resolveForward: true,
+    forwardMaxItems: 50,
+    forwardMaxChars: 4000,
+    forwardMaxDepth: 2,
     groupSessionMode: 'user',
     replyAtSender: true,
     replyQuoteMessage: false,
+    allowAtAll: false,
     sendIntervalMs: 2000,
+    sendGlobalIntervalMs: 500,
+    sendMaxRetries: 3,
+    sendRetryBaseMs: 1000,
+    maxConcurrent: 3,
+    sessionQueueMode: 'merge',
+    queueNotice: '',
+    splitMaxLength: 3000,
+    splitPrefixFormat: '[{i}/{n}]',
+    forwardReplyThreshold: 5,
+    forwardReplyNotice: '回复较长，已合并为聊天记录发送 ↑',
+    streamReply: false,
+    streamMinChars: 200,
+    streamFlushMs: 5000,
+  },
+  triggers: {
+    at: true,
+    nicknames: [],
+    keywords: [],
+    regexes: [],
+    replyToBot: false,
+    groups: {},
+  },
+  format: {
+    mode: 'light',
+    groups: {},
+  },
+  groupContext: {
+    groups: [],
+    maxMessages: 20,
+    maxMinutes: 10,
+    maxChars: 1500,
+  },
+  permissions: {
+    owners: [],
+    admins: [],
+    trusted: [],
+    users: [],
+    banned: [],
+    defaultRole: 'user',
+    groupOwnerRole: 'trusted',
+    groupAdminRole: 'trusted',
+    grants: {
+      user: {
+        commands: ['/help', '/whoami', '/quota', '/usage', '/agent', '/sessions', '/resume', '/link', '/unlink', '/new', '/clear', '/stop', '/status', '/context', '/commands'],
+        features: ['media'],
+      },
+      trusted: { commands: [], features: ['model'] },
+      admin: { commands: ['*'], features: ['quotaExempt'] },
+      owner: { commands: ['*'], features: ['*'] },
+    },
+    groups: {},
+    banExpiry: {},
+  },
+  quota: {
+    enabled: false,
+    userPerHour: 20,
+    userPerDay: 100,
+    groupPerHour: 0,
+    groupPerDay: 0,
+    globalPerHour: 0,
+    globalPerDay: 0,
+    exceededMessage: '⏳ {scope}{window}使用次数已达上限（{limit} 次），预计 {reset} 恢复',
+  },
+  usage: {
+    enabled: true,
+    retainDays: 30,
+    userDailyTokens: 0,
+    groupDailyTokens: 0,
+    globalDailyTokens: 0,
+    budgetExceededMessage: '💸 {scope}今日 token 额度（{limit}）已用完，明天再来吧',
   },
   media: {
     cacheEnabled: false,
@@ -30,7 +101,25 @@ export const DEFAULT_CONFIG: PluginConfig = {
     cachePath: '/tmp/napcat/napcat-plugin-openclaw/download',
     cacheMaxSizeMB: 2048,
     cacheTTLMinutes: 60,
+    sendAllowedRoots: ['/root/.openclaw/workspace', '/tmp/openclaw'],
+    sendMaxImageMB: 20,
+    sendMaxFileMB: 100,
+    sendAllowRemote: false,
+  },
+  sessions: {
+    privateIdleMinutes: 0,
+    groupIdleMinutes: 0,
+    maxHistory: 10,
+    links: {},
   },
+  agents: {
+    default: '',
+    available: [],
+    groups: {},
+    users: {},
+    prefixes: {},
+  },
+  groups: {},
 };
 
 export function buildConfigSchema(): PluginConfigSchema {
@@ -58,6 +147,43 @@ export function buildConfigSchema(): PluginConfigSchema {
       description: 'openclaw 可执行文件路径',
       default: DEFAULT_CONFIG.openclaw.cliPath,
     },
+    { key: '_header_sessions', type: 'text', label: '── 会话管理 ──' },
+    {
+      key: 'sessions.privateIdleMinutes',
+      type: 'number',
+      label: '私聊会话空闲过期（分钟）',
+      description: '私聊空闲超过该时长后自动开始新会话（旧会话可用 /resume 切回），0 表示不过期',
+      default: DEFAULT_CONFIG.sessions.privateIdleMinutes,
+    },
+    {
+      key: 'sessions.groupIdleMinutes',
+      type: 'number',
+      label: '群聊会话空闲过期（分钟）',
+      description: '群聊会话空闲超过该时长后自动开始新会话，0 表示不过期',
+      default: DEFAULT_CONFIG.sessions.groupIdleMinutes,
+    },
+    {
+      key: 'sessions.maxHistory',
+      type: 'number',
+      label: '历史会话保留数',
+      description: '每个会话在 /sessions 中保留的历史数',
+      default: DEFAULT_CONFIG.sessions.maxHistory,
+    },
+    { key: '_header_agents', type: 'text', label: '── Agent 路由（按群 / 用户 / 前缀映射见配置文件）──' },
+    {
+      key: 'agents.default',
+      type: 'string',
+      label: '默认 Agent',
+      description: '未匹配任何路由规则时使用的 Agent ID，留空使用 Gateway 的默认 Agent',
+      default: DEFAULT_CONFIG.agents.default,
+    },
+    {
+      key: 'agents.available',
+      type: 'string',
+      label: '可切换 Agent',
+      description: '普通用户可通过 /agent <名称> 切换的 Agent，多个用英文逗号分隔；管理员不受限制',
+      default: '',
+    },
     { key: '_header_behavior', type: 'text', label: '── 行为设置 ──' },
     {
       key: 'behavior.privateChat',
@@ -73,27 +199,6 @@ export function buildConfigSchema(): PluginConfigSchema {
       description: '群聊中是否仅响应 @ 消息',
       default: DEFAULT_CONFIG.behavior.groupAtOnly,
     },
-    {
-      key: 'behavior.adminQQ',
-      type: 'string',
-      label: '管理员 QQ',
-      description: '管理员 QQ 号，多个用英文逗号分隔，留空表示不限制',
-      default: '',
-    },
-    {
-      key: 'behavior.commandAdminOnly',
-      type: 'boolean',
-      label: '指令仅管理员',
-      description: '开启后 / 开头的指令仅管理员可使用，其他人的指令消息将被忽略',
-      default: DEFAULT_CONFIG.behavior.commandAdminOnly,
-    },
-    {
-      key: 'behavior.userWhitelist',
-      type: 'string',
-      label: '用户白名单',
-      description: '允许使用的 QQ 号，多个用英文逗号分隔，留空表示不限制',
-      default: '',
-    },
     {
       key: 'behavior.groupWhitelist',
       type: 'string',
@@ -102,24 +207,17 @@ export function buildConfigSchema(): PluginConfigSchema {
       default: '',
     },
     {
-      key: 'behavior.groupBypassUserWhitelist',
-      type: 'boolean',
-      label: '白名单群忽略用户白名单',
-      description: '开启后，白名单群聊中所有人 @ 都可触发回复，不受用户白名单限制',
-      default: DEFAULT_CONFIG.behavior.groupBypassUserWhitelist,
-    },
-    {
-      key: 'behavior.userBlacklist',
+      key: 'behavior.groupBlacklist',
       type: 'string',
-      label: '用户黑名单',
-      description: '禁止使用的 QQ 号，多个用英文逗号分隔，黑名单优先于白名单',
+      label: '停用的群',
+      description: '不响应的群号，多个用英文逗号分隔，优先于群白名单；可在群内用 /oc group off 设置',
       default: '',
     },
     {
       key: 'behavior.debounceMs',
       type: 'number',
       label: '防抖时间 (ms)',
-      description: '连续消息的防抖间隔（毫秒）',
+      description: '同一发送者在该时间窗口内的连续消息合并为一次请求（毫秒），0 表示不合并；/ 指令会立即发送',
       default: DEFAULT_CONFIG.behavior.debounceMs,
     },
     {
@@ -133,9 +231,37 @@ export function buildConfigSchema(): PluginConfigSchema {
       key: 'behavior.replyMaxDepth',
       type: 'number',
       label: '引用解析深度',
-      description: '引用消息的最大解析层数，默认 1（不递归解析引用中的引用）',
+      description: '引用消息的最大解析层数，默认 1（不递归解析引用中的引用），大于 1 时沿引用链逐层追溯',
       default: DEFAULT_CONFIG.behavior.replyMaxDepth,
     },
+    {
+      key: 'behavior.resolveForward',
+      type: 'boolean',
+      label: '解析合并转发',
+      description: '将合并转发的聊天记录展开为文本（含发送者昵称）传给后端',
+      default: DEFAULT_CONFIG.behavior.resolveForward,
+    },
+    {
+      key: 'behavior.forwardMaxItems',
+      type: 'number',
+      label: '合并转发最大条数',
+      description: '单次请求最多展开的合并转发消息条数（含嵌套），超出部分省略',
+      default: DEFAULT_CONFIG.behavior.forwardMaxItems,
+    },
+    {
+      key: 'behavior.forwardMaxChars',
+      type: 'number',
+      label: '合并转发最大字数',
+      description: '单次请求展开的合并转发文本总字数上限，超出部分截断',
+      default: DEFAULT_CONFIG.behavior.forwardMaxChars,
+    },
+    {
+      key: 'behavior.forwardMaxDepth',
+      type: 'number',
+      label: '合并转发嵌套深度',
+      description: '嵌套合并转发的最大展开层数',
+      default: DEFAULT_CONFIG.behavior.forwardMaxDepth,
+    },
     {
       key: 'behavior.groupSessionMode',
       type: 'select',
@@ -161,13 +287,399 @@ export function buildConfigSchema(): PluginConfigSchema {
       description: '群聊回复时引用触发的那条消息',
       default: DEFAULT_CONFIG.behavior.replyQuoteMessage,
     },
+    {
+      key: 'behavior.allowAtAll',
+      type: 'boolean',
+      label: '允许 @全体成员',
+      description: 'Agent 回复中的 @全体成员 是否生效；关闭时以纯文本发送',
+      default: DEFAULT_CONFIG.behavior.allowAtAll,
+    },
     {
       key: 'behavior.sendIntervalMs',
       type: 'number',
       label: '发送间隔 (ms)',
-      description: '全局消息发送最小间隔（毫秒），0 表示不限制',
+      description: '同一群 / 私聊两次发送的最小间隔（毫秒），各会话独立排队，0 表示不限制',
       default: DEFAULT_CONFIG.behavior.sendIntervalMs,
     },
+    {
+      key: 'behavior.sendGlobalIntervalMs',
+      type: 'number',
+      label: '全局发送间隔 (ms)',
+      description: '所有会话合计的最小发送间隔（毫秒），防止整体发送过快触发风控，0 表示不限制',
+      default: DEFAULT_CONFIG.behavior.sendGlobalIntervalMs,
+    },
+    {
+      key: 'behavior.sendMaxRetries',
+      type: 'number',
+      label: '发送重试次数',
+      description: '临时错误（超时、网络等）的最大重试次数；禁言、群已解散、非好友、消息过长、风控等永久错误不重试并通知管理员',
+      default: DEFAULT_CONFIG.behavior.sendMaxRetries,
+    },
+    {
+      key: 'behavior.sendRetryBaseMs',
+      type: 'number',
+      label: '重试基础间隔 (ms)',
+      description: '第 n 次重试等待 基础间隔 × 2^(n-1)，最长 30 秒',
+      default: DEFAULT_CONFIG.behavior.sendRetryBaseMs,
+    },
+    {
+      key: 'behavior.maxConcurrent',
+      type: 'number',
+      label: '最大并发运行数',
+      description: '所有会话合计同时处理的请求数上限，超出后按先后排队',
+      default: DEFAULT_CONFIG.behavior.maxConcurrent,
+    },
+    {
+      key: 'behavior.sessionQueueMode',
+      type: 'select',
+      label: '会话排队方式',
+      description: '同一会话上一条请求尚未完成时，后续消息的处理方式（/ 指令不排队）',
+      default: DEFAULT_CONFIG.behavior.sessionQueueMode,
+      options: [
+        { label: '合并为一条 (merge)', value: 'merge' },
+        { label: '逐条排队 (queue)', value: 'queue' },
+      ],
+    },
+    {
+      key: 'behavior.queueNotice',
+      type: 'string',
+      label: '排队提示',
+      description: '消息进入排队时回复的提示，{n} 为前面还有的条数，如「排队中（前面还有 {n} 条）」；留空不提示',
+      default: DEFAULT_CONFIG.behavior.queueNotice,
+    },
+    {
+      key: 'behavior.splitMaxLength',
+      type: 'number',
+      label: '单条消息最大长度',
+      description: '超长回复按段落、行、句子边界切分为多条，每条不超过该字符数；代码块跨条时自动闭合并重新打开',
+      default: DEFAULT_CONFIG.behavior.splitMaxLength,
+    },
+    {
+      key: 'behavior.splitPrefixFormat',
+      type: 'string',
+      label: '分段序号格式',
+      description: '多条消息开头的序号，{i} 为当前序号，{n} 为总条数，留空则不加序号',
+      default: DEFAULT_CONFIG.behavior.splitPrefixFormat,
+    },
+    {
+      key: 'behavior.forwardReplyThreshold',
+      type: 'number',
+      label: '合并转发阈值 (条)',
+      description: '回复切分后超过该条数时打包为一条合并转发发送（图片一并放入），减少刷屏与风控；0 表示不启用',
+      default: DEFAULT_CONFIG.behavior.forwardReplyThreshold,
+    },
+    {
+      key: 'behavior.forwardReplyNotice',
+      type: 'string',
+      label: '合并转发提示语',
+      description: '群聊中发送合并转发后，@ 发送者的简短提示',
+      default: DEFAULT_CONFIG.behavior.forwardReplyNotice,
+    },
+    {
+      key: 'behavior.streamReply',
+      type: 'boolean',
+      label: '流式回复',
+      description: '开启后 Agent 每完成一个段落或代码块即发送到 QQ，而非等待全部生成完毕',
+      default: DEFAULT_CONFIG.behavior.streamReply,
+    },
+    {
+      key: 'behavior.streamMinChars',
+      type: 'number',
+      label: '流式最小片段 (字符)',
+      description: '流式回复时单条消息的最小字符数，不足时继续累积',
+      default: DEFAULT_CONFIG.behavior.streamMinChars,
+    },
+    {
+      key: 'behavior.streamFlushMs',
+      type: 'number',
+      label: '流式刷新超时 (ms)',
+      description: '超过该时长无新内容时，立即发送已完成的内容（忽略最小片段），0 表示不启用',
+      default: DEFAULT_CONFIG.behavior.streamFlushMs,
+    },
+    { key: '_header_triggers', type: 'text', label: '── 群聊触发规则（群聊仅 @ 开启时生效）──' },
+    {
+      key: 'triggers.at',
+      type: 'boolean',
+      label: '@bot 触发',
+      description: '群聊中 @bot 时触发回复',
+      default: DEFAULT_CONFIG.triggers.at,
+    },
+    {
+      key: 'triggers.nicknames',
+      type: 'string',
+      label: 'Bot 昵称',
+      description: '以昵称开头的消息触发回复（如 "莲莲，帮我…"），多个用英文逗号分隔，昵称会从消息中去除',
+      default: '',
+    },
+    {
+      key: 'triggers.keywords',
+      type: 'string',
+      label: '触发关键词',
+      description: '以关键词开头的消息触发回复，多个用英文逗号分隔，关键词会从消息中去除',
+      default: '',
+    },
+    {
+      key: 'triggers.replyToBot',
+      type: 'boolean',
+      label: '回复 bot 消息触发',
+      description: '引用回复 bot 发出的消息时触发回复，无需 @',
+      default: DEFAULT_CONFIG.triggers.replyToBot,
+    },
+    { key: '_header_format', type: 'text', label: '── 回复格式 ──' },
+    {
+      key: 'format.mode',
+      type: 'select',
+      label: 'Markdown 渲染',
+      description: 'Agent 回复中 Markdown 的处理方式（可在配置文件 format.groups 中按群覆盖）',
+      default: DEFAULT_CONFIG.format.mode,
+      options: [
+        { label: '原样发送 (raw)', value: 'raw' },
+        { label: '纯文本 (plain)', value: 'plain' },
+        { label: '轻量排版 (light)', value: 'light' },
+      ],
+    },
+    { key: '_header_group_context', type: 'text', label: '── 群聊上下文 ──' },
+    {
+      key: 'groupContext.groups',
+      type: 'string',
+      label: '开启群上下文的群',
+      description: '在这些群中记录未触发 bot 的近期消息（昵称、QQ、文本，仅保存在内存），触发时附带给 Agent；多个群号用英文逗号分隔，留空表示不记录',
+      default: '',
+    },
+    {
+      key: 'groupContext.maxMessages',
+      type: 'number',
+      label: '上下文最大条数',
+      description: '每个群最多保留的近期消息条数',
+      default: DEFAULT_CONFIG.groupContext.maxMessages,
+    },
+    {
+      key: 'groupContext.maxMinutes',
+      type: 'number',
+      label: '上下文时间窗口 (分钟)',
+      description: '仅保留最近若干分钟内的消息',
+      default: DEFAULT_CONFIG.groupContext.maxMinutes,
+    },
+    {
+      key: 'groupContext.maxChars',
+      type: 'number',
+      label: '上下文最大字数',
+      description: '附带给 Agent 的上下文总字数上限，超出时优先保留最近的消息',
+      default: DEFAULT_CONFIG.groupContext.maxChars,
+    },
+    { key: '_header_permissions', type: 'text', label: '── 角色权限 ──' },
+    {
+      key: 'permissions.owners',
+      type: 'string',
+      label: '所有者 QQ',
+      description: '插件所有者，拥有全部权限并接收告警通知；多个用英文逗号分隔',
+      default: '',
+    },
+    {
+      key: 'permissions.admins',
+      type: 'string',
+      label: '管理员 QQ',
+      description: '全局管理员，默认可用全部指令且不受配额限制，同样接收告警通知',
+      default: '',
+    },
+    {
+      key: 'permissions.trusted',
+      type: 'string',
+      label: '信任用户 QQ',
+      description: '信任用户，默认额外允许切换模型（/model、/think 等）',
+      default: '',
+    },
+    {
+      key: 'permissions.users',
+      type: 'string',
+      label: '普通用户 QQ',
+      description: '显式的普通用户；默认角色为「封禁」时，仅列出的用户可使用（白名单）',
+      default: '',
+    },
+    {
+      key: 'permissions.banned',
+      type: 'string',
+      label: '封禁 QQ',
+      description: '封禁用户的消息将被忽略，优先于除所有者外的所有角色',
+      default: '',
+    },
+    {
+      key: 'permissions.defaultRole',
+      type: 'select',
+      label: '默认角色',
+      description: '未在上面列出的用户的角色',
+      default: DEFAULT_CONFIG.permissions.defaultRole,
+      options: [
+        { label: '普通用户 (所有人可用)', value: 'user' },
+        { label: '封禁 (仅列出的用户可用)', value: 'banned' },
+      ],
+    },
+    {
+      key: 'permissions.groupOwnerRole',
+      type: 'select',
+      label: '群主角色',
+      description: '群主在其所在群中自动获得的角色（显式配置的角色更高时以显式为准）',
+      default: DEFAULT_CONFIG.permissions.groupOwnerRole,
+      options: [
+        { label: '管理员 (admin)', value: 'admin' },
+        { label: '信任用户 (trusted)', value: 'trusted' },
+        { label: '普通用户 (user)', value: 'user' },
+      ],
+    },
+    {
+      key: 'permissions.groupAdminRole',
+      type: 'select',
+      label: '群管理员角色',
+      description: '群管理员在其所在群中自动获得的角色',
+      default: DEFAULT_CONFIG.permissions.groupAdminRole,
+      options: [
+        { label: '管理员 (admin)', value: 'admin' },
+        { label: '信任用户 (trusted)', value: 'trusted' },
+        { label: '普通用户 (user)', value: 'user' },
+      ],
+    },
+    {
+      key: 'permissions.grants.user.commands',
+      type: 'string',
+      label: '普通用户可用指令',
+      description: '允许的 / 指令（Gateway 指令与本地指令），英文逗号分隔，* 表示全部（高级角色自动包含低级角色的授权）',
+      default: DEFAULT_CONFIG.permissions.grants.user.commands.join(', '),
+    },
+    {
+      key: 'permissions.grants.user.features',
+      type: 'string',
+      label: '普通用户功能',
+      description: 'media（发送图片/文件给 Agent）、model（切换模型类指令）、quotaExempt（不受配额与 token 额度限制），英文逗号分隔',
+      default: DEFAULT_CONFIG.permissions.grants.user.features.join(', '),
+    },
+    {
+      key: 'permissions.grants.trusted.commands',
+      type: 'string',
+      label: '信任用户可用指令',
+      description: '允许的 / 指令（Gateway 指令与本地指令），英文逗号分隔，* 表示全部',
+      default: DEFAULT_CONFIG.permissions.grants.trusted.commands.join(', '),
+    },
+    {
+      key: 'permissions.grants.trusted.features',
+      type: 'string',
+      label: '信任用户功能',
+      description: 'media（发送图片/文件给 Agent）、model（切换模型类指令）、quotaExempt（不受配额与 token 额度限制），英文逗号分隔',
+      default: DEFAULT_CONFIG.permissions.grants.trusted.features.join(', '),
+    },
+    {
+      key: 'permissions.grants.admin.commands',
+      type: 'string',
+      label: '管理员可用指令',
+      description: '允许的 / 指令（Gateway 指令与本地指令），英文逗号分隔，* 表示全部',
+      default: DEFAULT_CONFIG.permissions.grants.admin.commands.join(', '),
+    },
+    {
+      key: 'permissions.grants.admin.features',
+      type: 'string',
+      label: '管理员功能',
+      description: 'media（发送图片/文件给 Agent）、model（切换模型类指令）、quotaExempt（不受配额与 token 额度限制），英文逗号分隔',
+      default: DEFAULT_CONFIG.permissions.grants.admin.features.join(', '),
+    },
+    { key: '_header_quota', type: 'text', label: '── 使用配额 ──' },
+    {
+      key: 'quota.enabled',
+      type: 'boolean',
+      label: '启用使用配额',
+      description: '按用户、群与全局限制触发 Agent 的次数（滑动窗口，计数在重启后保留），拥有 quotaExempt 功能的角色不受限制',
+      default: DEFAULT_CONFIG.quota.enabled,
+    },
+    {
+      key: 'quota.userPerHour',
+      type: 'number',
+      label: '每人每小时',
+      description: '每个用户每小时最多触发 Agent 的次数，0 表示不限制',
+      default: DEFAULT_CONFIG.quota.userPerHour,
+    },
+    {
+      key: 'quota.userPerDay',
+      type: 'number',
+      label: '每人每天',
+      description: '每个用户 24 小时内最多触发 Agent 的次数，0 表示不限制',
+      default: DEFAULT_CONFIG.quota.userPerDay,
+    },
+    {
+      key: 'quota.groupPerHour',
+      type: 'number',
+      label: '每群每小时',
+      description: '每个群每小时合计最多触发 Agent 的次数，0 表示不限制',
+      default: DEFAULT_CONFIG.quota.groupPerHour,
+    },
+    {
+      key: 'quota.groupPerDay',
+      type: 'number',
+      label: '每群每天',
+      description: '每个群 24 小时内合计最多触发 Agent 的次数，0 表示不限制',
+      default: DEFAULT_CONFIG.quota.groupPerDay,
+    },
+    {
+      key: 'quota.globalPerHour',
+      type: 'number',
+      label: '全局每小时',
+      description: '所有用户每小时合计最多触发 Agent 的次数，0 表示不限制',
+      default: DEFAULT_CONFIG.quota.globalPerHour,
+    },
+    {
+      key: 'quota.globalPerDay',
+      type: 'number',
+      label: '全局每天',
+      description: '所有用户 24 小时内合计最多触发 Agent 的次数，0 表示不限制',
+      default: DEFAULT_CONFIG.quota.globalPerDay,
+    },
+    {
+      key: 'quota.exceededMessage',
+      type: 'string',
+      label: '超限提示',
+      description: '配额用尽时的回复，可用 {scope}（个人/本群/全局）、{window}（每小时/每日）、{limit}、{reset}（恢复时间）',
+      default: DEFAULT_CONFIG.quota.exceededMessage,
+    },
+    { key: '_header_usage', type: 'text', label: '── 用量统计 ──' },
+    {
+      key: 'usage.enabled',
+      type: 'boolean',
+      label: '记录 token 用量',
+      description: '从 Gateway 的 final 事件中解析 token 数、模型与费用，按用户 / 群 / 会话累计并保存到本地；/usage 查看',
+      default: DEFAULT_CONFIG.usage.enabled,
+    },
+    {
+      key: 'usage.retainDays',
+      type: 'number',
+      label: '保留天数',
+      description: '用量统计按天保存，超过该天数的数据自动删除',
+      default: DEFAULT_CONFIG.usage.retainDays,
+    },
+    {
+      key: 'usage.userDailyTokens',
+      type: 'number',
+      label: '每人每日 token 额度',
+      description: '用户当天累计 token 达到该值后不再处理新请求（拥有 quotaExempt 功能的角色除外），0 表示不限制',
+      default: DEFAULT_CONFIG.usage.userDailyTokens,
+    },
+    {
+      key: 'usage.groupDailyTokens',
+      type: 'number',
+      label: '每群每日 token 额度',
+      description: '群当天累计 token 达到该值后不再处理新请求，0 表示不限制',
+      default: DEFAULT_CONFIG.usage.groupDailyTokens,
+    },
+    {
+      key: 'usage.globalDailyTokens',
+      type: 'number',
+      label: '全局每日 token 额度',
+      description: '所有会话当天累计 token 达到该值后不再处理新请求，0 表示不限制',
+      default: DEFAULT_CONFIG.usage.globalDailyTokens,
+    },
+    {
+      key: 'usage.budgetExceededMessage',
+      type: 'string',
+      label: '额度用尽提示',
+      description: '每日 token 额度用尽时的回复，可用 {scope}（个人/本群/全局）、{limit}',
+      default: DEFAULT_CONFIG.usage.budgetExceededMessage,
+    },
     { key: '_header_media', type: 'text', label: '── 多媒体缓存 ──' },
     {
       key: 'media.cacheEnabled',
@@ -204,5 +716,34 @@ export function buildConfigSchema(): PluginConfigSchema {
       description: '缓存文件定时清理间隔，默认 60 分钟',
       default: DEFAULT_CONFIG.media.cacheTTLMinutes,
     },
+    { key: '_header_media_send', type: 'text', label: '── 发送媒体（MEDIA: 指令）──' },
+    {
+      key: 'media.sendAllowedRoots',
+      type: 'string',
+      label: '允许发送的目录',
+      description: 'Agent 通过 MEDIA: 指令只能发送这些目录下的文件（解析符号链接后判断），多个用英文逗号分隔',
+      default: DEFAULT_CONFIG.media.sendAllowedRoots.join(', '),
+    },
+    {
+      key: 'media.sendMaxImageMB',
+      type: 'number',
+      label: '图片大小上限 (MB)',
+      description: 'MEDIA: 指令发送图片的最大体积',
+      default: DEFAULT_CONFIG.media.sendMaxImageMB,
+    },
+    {
+      key: 'media.sendMaxFileMB',
+      type: 'number',
+      label: '文件大小上限 (MB)',
+      description: 'MEDIA: 指令发送语音、视频、文件的最大体积',
+      default: DEFAULT_CONFIG.media.sendMaxFileMB,
+    },
+    {
+      key: 'media.sendAllowRemote',
+      type: 'boolean',
+      label: '允许发送网络链接',
+      description: '允许 MEDIA: 指令使用 http(s) 链接，本机与内网地址始终拒绝',
+      default: DEFAULT_CONFIG.media.sendAllowRemote,
+    },
   ];
 }
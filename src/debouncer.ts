@@ -0,0 +1,68 @@
+// 消息防抖 - 合并同一发送者在时间窗口内的连续消息
+
+import type { DebounceResult, ExtractedMedia } from './types';
+
+interface PendingBatch<M> {
+  texts: string[];
+  media: ExtractedMedia[];
+  meta: M;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class MessageDebouncer<M> {
+  private batches = new Map<string, PendingBatch<M>>();
+  private getWindowMs: (meta: M) => number;
+  private onFlush: (result: DebounceResult, meta: M) => void;
+
+  /**
+   * @param getWindowMs 每次写入时按消息元信息读取窗口时长，配置热更新后立即生效
+   * @param onFlush 窗口结束时回调，meta 为批次中最后一条消息的元信息
+   */
+  constructor(getWindowMs: (meta: M) => number, onFlush: (result: DebounceResult, meta: M) => void) {
+    this.getWindowMs = getWindowMs;
+    this.onFlush = onFlush;
+  }
+
+  /** 写入一条消息；窗口为 0 时立即回调 */
+  push(key: string, text: string, media: ExtractedMedia[], meta: M): void {
+    const windowMs = this.getWindowMs(meta);
+    const existing = this.batches.get(key);
+
+    if (windowMs <= 0 && !existing) {
+      this.onFlush({ text, media }, meta);
+      return;
+    }
+
+    if (existing) {
+      clearTimeout(existing.timer);
+      if (text) existing.texts.push(text);
+      existing.media.push(...media);
+      existing.meta = meta;
+      existing.timer = setTimeout(() => this.flush(key), windowMs);
+      return;
+    }
+
+    this.batches.set(key, {
+      texts: text ? [text] : [],
+      media: [...media],
+      meta,
+      timer: setTimeout(() => this.flush(key), windowMs),
+    });
+  }
+
+  /** 立即结束某个 key 的窗口（如收到指令时），无待发送内容返回 false */
+  flush(key: string): boolean {
+    const batch = this.batches.get(key);
+    if (!batch) return false;
+    clearTimeout(batch.timer);
+    this.batches.delete(key);
+    this.onFlush({ text: batch.texts.join('\n'), media: batch.media }, batch.meta);
+    return true;
+  }
+
+  /** 丢弃所有未发送的批次 */
+  clear(): void {
+    for (const batch of this.batches.values()) clearTimeout(batch.timer);
+    this.batches.clear();
+  }
+}
@@ -0,0 +1,56 @@
+// QQ 系统表情 ID ↔ 中文名称
+
+export const FACE_MAP: Record<number, string> = {
+  0:'惊讶',1:'撇嘴',2:'色',3:'发呆',4:'得意',5:'流泪',6:'害羞',7:'闭嘴',8:'睡',9:'大哭',
+  10:'尴尬',11:'发怒',12:'调皮',13:'呲牙',14:'微笑',15:'难过',16:'酷',18:'抓狂',19:'吐',
+  20:'偷笑',21:'可爱',22:'白眼',23:'傲慢',24:'饥饿',25:'困',26:'惊恐',27:'流汗',28:'憨笑',
+  29:'悠闲',30:'奋斗',31:'咒骂',32:'疑问',33:'嘘',34:'晕',35:'折磨',36:'衰',37:'骷髅',
+  38:'敲打',39:'再见',46:'猪头',49:'拥抱',53:'蛋糕',54:'闪电',55:'炸弹',56:'刀',57:'足球',
+  59:'便便',60:'咖啡',61:'饭',63:'玫瑰',64:'凋谢',66:'爱心',67:'心碎',69:'礼物',74:'太阳',
+  75:'月亮',76:'赞',77:'踩',78:'握手',79:'胜利',85:'飞吻',86:'怄火',89:'西瓜',96:'冷汗',
+  97:'擦汗',98:'抠鼻',99:'鼓掌',100:'糗大了',101:'坏笑',102:'左哼哼',103:'右哼哼',104:'哈欠',
+  105:'鄙视',106:'委屈',107:'快哭了',108:'阴险',109:'亲亲',110:'吓',111:'可怜',112:'菜刀',
+  113:'啤酒',114:'篮球',115:'乒乓',116:'示爱',117:'瓢虫',118:'抱拳',119:'勾引',120:'拳头',
+  121:'差劲',122:'爱你',123:'NO',124:'OK',125:'转圈',126:'磕头',127:'回头',128:'跳绳',
+  129:'挥手',130:'激动',131:'街舞',132:'献吻',133:'左太极',134:'右太极',136:'双喜',137:'鞭炮',
+  138:'灯笼',140:'K歌',141:'喝彩',142:'祈祷',143:'爆筋',144:'棒棒糖',145:'喝奶',146:'下面',
+  147:'香蕉',148:'飞机',149:'开车',150:'高铁左',151:'车厢',152:'高铁右',153:'多云',154:'下雨',
+  155:'钞票',156:'熊猫',157:'灯泡',158:'风车',159:'闹钟',160:'打伞',161:'彩球',162:'钻戒',
+  163:'沙发',164:'纸巾',165:'药',166:'手枪',167:'青蛙',168:'茶',169:'眨眼',170:'泪奔',
+  171:'无奈',172:'卖萌',173:'小纠结',174:'喷血',176:'惊喜',177:'骚扰',178:'小红花',179:'笑哭',
+  180:'我最美',181:'河蟹',182:'羊驼',185:'幽灵',187:'大笑',188:'不开心',189:'冷漠',190:'呃',
+  191:'好棒',192:'拜托',193:'点赞',194:'无聊',195:'托脸',196:'吃',197:'送花',198:'害怕',
+  199:'花痴',200:'小样儿',201:'飙泪',202:'我不看',203:'托腮',204:'啵啵',205:'糊脸',
+  206:'拍头',207:'扯一扯',208:'舔一舔',209:'蹭一蹭',210:'拽炸天',211:'顶呱呱',
+  212:'抱抱',213:'暴击',214:'开枪',215:'撩一撩',216:'拍桌',217:'拍手',218:'恭喜',
+  219:'干杯',220:'嘲讽',221:'哼',222:'佛系',223:'掐一掐',224:'惊呆',225:'颤抖',
+  226:'啃头',227:'偷看',228:'扇脸',229:'原谅',230:'喷脸',231:'生日快乐',232:'头撞击',
+  233:'甩头',234:'扔狗',237:'加油必胜',238:'加油抱抱',239:'口罩护体',240:'搬砖中',
+  241:'忙到飞起',242:'脑阔疼',243:'沧桑',244:'捂脸',245:'辣眼睛',246:'哦哟',247:'头秃',
+  260:'让我看看',261:'敬礼',262:'狗狗',263:'无眼笑',264:'敲开心',265:'我酸了',266:'太南了',
+  267:'辣椒酱',268:'汪汪',269:'汗',270:'打脸',271:'击掌',272:'无语',273:'社会社会',
+  274:'拍了拍',275:'宝贝',276:'贴贴',277:'骰子',278:'石头剪刀布',
+  281:'让我康康',282:'叹气',283:'菜汪',284:'狗头',285:'滑稽',286:'花朵脸',287:'我看看',
+  290:'摸鱼',293:'魔鬼笑',294:'哦',295:'请',296:'睁眼',297:'敲开心2',298:'摸锦鲤',
+  299:'期待',300:'拿到红包',301:'真好',302:'拜谢',303:'元宝',304:'牛啊',305:'胖三斤',
+  306:'好闪',307:'左拜年',308:'右拜年',309:'红包包',310:'右亲亲',311:'牛气冲天',
+  312:'喵喵',314:'仔细分析',315:'加油',316:'我没事',317:'菜狗',318:'崇拜',319:'比心',
+  320:'庆祝',322:'拒绝',324:'嫌弃',326:'吃糖',
+};
+
+export function faceName(id: string | number): string {
+  return FACE_MAP[Number(id)] || `表情${id}`;
+}
+
+let faceIdsByName: Map<string, number> | null = null;
+
+/** 表情名称 → ID，用于将 Agent 回复中的 [微笑] 还原为 face 消息段 */
+export function faceIdByName(name: string): number | undefined {
+  if (!faceIdsByName) {
+    faceIdsByName = new Map();
+    for (const [id, faceName] of Object.entries(FACE_MAP)) {
+      if (!faceIdsByName.has(faceName)) faceIdsByName.set(faceName, Number(id));
+    }
+  }
+  return faceIdsByName.get(name);
+}
@@ -7,6 +7,7 @@ interface PendingRequest {
 }
 
 interface ChatWaiter {
+  sessionKey: string;
   handler: (payload: any) => void;
 }
 
@@ -17,6 +18,8 @@ export class GatewayClient {
   private pending = new Map<string, PendingRequest>();
   public eventHandlers = new Map<string, (payload: any) => void>();
   public chatWaiters = new Map<string, ChatWaiter>();
+  /** 未匹配到任何 run 的 chat 事件（如其他客户端发起的 run）交给此钩子处理 */
+  public onUnmatchedChat: ((payload: any) => void) | null = null;
   private _connected = false;
   private connectPromise: Promise<void> | null = null;
   private connectNonce: string | null = null;
@@ -130,13 +133,17 @@ export class GatewayClient {
     if (frame.type === 'event' && frame.event) {
       if (frame.event === 'tick') return;
 
-      // Chat events: route by runId to specific waiters
-      if (frame.event === 'chat' && frame.payload?.runId) {
-        const waiter = this.chatWaiters.get(frame.payload.runId);
+      // Chat events: route by runId (then sessionKey) to specific waiters
+      if (frame.event === 'chat' && frame.payload) {
+        const waiter = this.findChatWaiter(frame.payload);
         if (waiter) {
           waiter.handler(frame.payload);
           return; // 已由 waiter 处理，跳过全局 handler
         }
+        if (this.onUnmatchedChat) {
+          this.onUnmatchedChat(frame.payload);
+          return;
+        }
       }
 
       const handler = this.eventHandlers.get(frame.event);
@@ -144,6 +151,53 @@ export class GatewayClient {
     }
   }
 
+  private findChatWaiter(payload: any): ChatWaiter | undefined {
+    if (payload.runId) {
+      const byRun = this.chatWaiters.get(payload.runId);
+      if (byRun) return byRun;
+    }
+    // Gateway 可能为 run 分配了新的 runId，或在未指定 agent 的 sessionKey 前加默认 agent 前缀（agent:main:qq-xxx）
+    const sessionKey: string | undefined = payload.sessionKey;
+    if (!sessionKey) return undefined;
+    const exact = [...this.chatWaiters].filter(([, w]) => w.sessionKey === sessionKey);
+    const defaultAgent = sessionKey.match(/^agent:[^:]+:(.+)$/);
+    const candidates = exact.length > 0 || !defaultAgent
+      ? exact
+      : [...this.chatWaiters].filter(([, w]) => !w.sessionKey.startsWith('agent:') && w.sessionKey === defaultAgent[1]);
+    // 同一 sessionKey 有多个 waiter（如 /stop 与进行中的 run）时无法判断归属，交给 runId 匹配
+    if (candidates.length !== 1) return undefined;
+    const [runId, waiter] = candidates[0];
+    // 以服务端 runId 重新登记，后续事件直接命中
+    if (payload.runId && payload.runId !== runId) {
+      this.chatWaiters.delete(runId);
+      this.chatWaiters.set(payload.runId, waiter);
+    }
+    return waiter;
+  }
+
+  /**
+   * 为一次 chat.send 登记事件监听，按 runId / sessionKey 路由，返回注销函数。
+   * 应在发送请求前调用，避免错过早到的事件。
+   */
+  registerChatWaiter(runId: string, sessionKey: string, handler: (payload: any) => void): () => void {
+    const waiter: ChatWaiter = { sessionKey, handler };
+    this.chatWaiters.set(runId, waiter);
+    return () => {
+      for (const [key, w] of this.chatWaiters) {
+        if (w === waiter) this.chatWaiters.delete(key);
+      }
+    };
+  }
+
+  /** chat.send 返回的 runId 与本地 idempotencyKey 不同时，将 waiter 迁移到服务端 runId */
+  rekeyChatWaiter(oldRunId: string, newRunId: string): void {
+    if (!newRunId || oldRunId === newRunId) return;
+    const waiter = this.chatWaiters.get(oldRunId);
+    if (!waiter) return;
+    this.chatWaiters.delete(oldRunId);
+    this.chatWaiters.set(newRunId, waiter);
+  }
+
   private sendConnect(
     resolve: (value: void) => void,
     reject: (err: Error) => void,
@@ -0,0 +1,146 @@
+// 群级配置 - 按群号覆盖 behavior / media 字段，未覆盖的字段沿用全局配置
+
+import type { GroupOverrides, PluginConfig } from './types';
+
+export type OverrideSection = keyof GroupOverrides;
+
+/** 某个群的生效配置 */
+export interface ScopedConfig {
+  behavior: PluginConfig['behavior'];
+  media: PluginConfig['media'];
+}
+
+export type OverrideResult =
+  | { ok: true; key: string; value: unknown }
+  | { ok: false; reason: string };
+
+const SECTIONS: OverrideSection[] = ['behavior', 'media'];
+
+/**
+ * 作用于全局的字段不可按群覆盖：私聊 / 群开关、发送限速、全局并发与媒体缓存；
+ * MEDIA 发送沙箱（允许目录、远程链接）只能在配置文件中修改，避免通过 /oc set 放宽
+ */
+const GLOBAL_ONLY: Record<OverrideSection, string[]> = {
+  behavior: [
+    'privateChat', 'groupWhitelist', 'groupBlacklist',
+    'sendIntervalMs', 'sendGlobalIntervalMs', 'sendMaxRetries', 'sendRetryBaseMs', 'maxConcurrent',
+  ],
+  media: ['cacheEnabled', 'cachePath', 'cacheMaxSizeMB', 'cacheTTLMinutes', 'sendAllowedRoots', 'sendAllowRemote'],
+};
+
+const ENUM_VALUES: Record<string, string[]> = {
+  'behavior.groupSessionMode': ['user', 'shared'],
+  'behavior.sessionQueueMode': ['queue', 'merge'],
+};
+
+function overridable(config: PluginConfig, section: OverrideSection, field: string): boolean {
+  return field in config[section] && !GLOBAL_ONLY[section].includes(field);
+}
+
+/** 只保留可覆盖的字段，配置文件中写错或不可覆盖的字段被忽略 */
+function pickOverrides(config: PluginConfig, section: OverrideSection, values: Record<string, unknown> | undefined): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(values || {})) {
+    if (value !== undefined && overridable(config, section, field)) out[field] = value;
+  }
+  return out;
+}
+
+export function resolveGroupConfig(config: PluginConfig, groupId?: number | string): ScopedConfig {
+  const override = groupId != null ? config.groups?.[String(groupId)] : undefined;
+  if (!override) return { behavior: config.behavior, media: config.media };
+  return {
+    behavior: { ...config.behavior, ...pickOverrides(config, 'behavior', override.behavior) },
+    media: { ...config.media, ...pickOverrides(config, 'media', override.media) },
+  };
+}
+
+/** 解析 "behavior.groupAtOnly" 或仅字段名 "groupAtOnly"（先查 behavior 再查 media） */
+function resolveKey(config: PluginConfig, key: string): { section: OverrideSection; field: string } | null {
+  const [head, ...rest] = key.split('.');
+  if (rest.length === 1 && SECTIONS.includes(head as OverrideSection)) {
+    return { section: head as OverrideSection, field: rest[0] };
+  }
+  if (rest.length > 0) return null;
+  const section = SECTIONS.find((s) => head in config[s]);
+  return section ? { section, field: head } : null;
+}
+
+/** 按全局值的类型转换输入：布尔 on/off、数字、逗号分隔列表、字符串（"" 表示空字符串） */
+function parseValue(current: unknown, raw: string, allowed?: string[]): { ok: true; value: unknown } | { ok: false; reason: string } {
+  const text = raw.trim();
+  if (typeof current === 'boolean') {
+    if (/^(on|true|1|yes|开)$/i.test(text)) return { ok: true, value: true };
+    if (/^(off|false|0|no|关)$/i.test(text)) return { ok: true, value: false };
+    return { ok: false, reason: '需要 on 或 off' };
+  }
+  if (typeof current === 'number') {
+    const n = Number(text);
+    return text !== '' && Number.isFinite(n) && n >= 0 ? { ok: true, value: n } : { ok: false, reason: '需要非负数字' };
+  }
+  if (Array.isArray(current)) {
+    return { ok: true, value: text.split(',').map((s) => s.trim()).filter(Boolean) };
+  }
+  const value = text === '""' ? '' : text;
+  if (allowed && !allowed.includes(value)) return { ok: false, reason: `可选值: ${allowed.join(' / ')}` };
+  return { ok: true, value };
+}
+
+/** 设置群覆盖（原地修改 config.groups） */
+export function setGroupOverride(config: PluginConfig, groupId: number | string, key: string, raw: string): OverrideResult {
+  const resolved = resolveKey(config, key);
+  if (!resolved) return { ok: false, reason: `未知配置项: ${key}` };
+  const { section, field } = resolved;
+  const fullKey = `${section}.${field}`;
+  if (!overridable(config, section, field)) return { ok: false, reason: `${fullKey} 为全局配置，不能按群覆盖` };
+
+  const parsed = parseValue((config[section] as Record<string, unknown>)[field], raw, ENUM_VALUES[fullKey]);
+  if (!parsed.ok) return { ok: false, reason: `${fullKey} ${parsed.reason}` };
+
+  config.groups ||= {};
+  const group = (config.groups[String(groupId)] ||= {});
+  ((group[section] ||= {}) as Record<string, unknown>)[field] = parsed.value;
+  return { ok: true, key: fullKey, value: parsed.value };
+}
+
+/** 移除群覆盖，恢复为全局值；该群没有任何覆盖时删除整个条目。返回是否发生变化 */
+export function unsetGroupOverride(config: PluginConfig, groupId: number | string, key: string): boolean {
+  const resolved = resolveKey(config, key);
+  const group = config.groups?.[String(groupId)];
+  const values = resolved && (group?.[resolved.section] as Record<string, unknown> | undefined);
+  if (!resolved || !values || !(resolved.field in values)) return false;
+  delete values[resolved.field];
+  if (Object.keys(values).length === 0) delete group![resolved.section];
+  if (Object.keys(group!).length === 0) delete config.groups[String(groupId)];
+  return true;
+}
+
+/** 该群生效中的覆盖项，如 ["behavior.groupAtOnly", ...] */
+export function groupOverrideKeys(config: PluginConfig, groupId: number | string): string[] {
+  const group = config.groups?.[String(groupId)];
+  if (!group) return [];
+  return SECTIONS.flatMap((section) =>
+    Object.keys(pickOverrides(config, section, group[section])).map((field) => `${section}.${field}`)
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(空)';
+  if (value === '') return '(空)';
+  return String(value);
+}
+
+/** 生效配置的文本列表，覆盖项以 * 标记；不可覆盖的全局字段不列出 */
+export function describeGroupConfig(config: PluginConfig, groupId: number | string): string[] {
+  const scoped = resolveGroupConfig(config, groupId);
+  const overridden = new Set(groupOverrideKeys(config, groupId));
+  const lines: string[] = [];
+  for (const section of SECTIONS) {
+    for (const [field, value] of Object.entries(scoped[section])) {
+      if (GLOBAL_ONLY[section].includes(field)) continue;
+      const key = `${section}.${field}`;
+      lines.push(`${overridden.has(key) ? '* ' : '  '}${key} = ${formatValue(value)}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,77 @@
+// 群聊上下文 - 按群缓存最近未触发 bot 的消息，触发时作为背景附带给 Agent
+
+export interface GroupContextEntry {
+  userId: number | string;
+  nickname: string;
+  text: string;
+  time: number;
+}
+
+export interface GroupContextLimits {
+  maxMessages: number;
+  maxMinutes: number;
+  maxChars: number;
+}
+
+const ENTRY_MAX_CHARS = 120;
+
+export class GroupContextBuffer {
+  private buffers = new Map<string, GroupContextEntry[]>();
+
+  record(groupId: number | string, entry: GroupContextEntry, limits: GroupContextLimits): void {
+    const text = entry.text.replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    const key = String(groupId);
+    const buf = this.buffers.get(key) || [];
+    buf.push({ ...entry, text });
+    this.prune(buf, limits);
+    this.buffers.set(key, buf);
+  }
+
+  /** 返回仍在窗口内的消息（按时间顺序） */
+  slice(groupId: number | string, limits: GroupContextLimits): GroupContextEntry[] {
+    const buf = this.buffers.get(String(groupId));
+    if (!buf) return [];
+    this.prune(buf, limits);
+    return [...buf];
+  }
+
+  /**
+   * 渲染为 [群聊近期消息] 块：单条截断，总长度超限时优先保留最近的消息。
+   */
+  summarize(groupId: number | string, limits: GroupContextLimits): string {
+    const entries = this.slice(groupId, limits);
+    if (entries.length === 0) return '';
+
+    const lines: string[] = [];
+    let total = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const e = entries[i];
+      const text = e.text.length > ENTRY_MAX_CHARS ? e.text.slice(0, ENTRY_MAX_CHARS) + '…' : e.text;
+      const line = `${e.nickname}(${e.userId}): ${text}`;
+      if (total + line.length > limits.maxChars && lines.length > 0) break;
+      lines.unshift(line);
+      total += line.length;
+    }
+    const omitted = entries.length - lines.length;
+    if (omitted > 0) lines.unshift(`…… 更早的 ${omitted} 条已省略`);
+    return `[群聊近期消息]\n${lines.join('\n')}\n[/群聊近期消息]`;
+  }
+
+  /** 渲染后清空该群缓冲：已附带给 Agent 的消息不再重复发送 */
+  take(groupId: number | string, limits: GroupContextLimits): string {
+    const summary = this.summarize(groupId, limits);
+    this.clear(groupId);
+    return summary;
+  }
+
+  clear(groupId?: number | string): void {
+    if (groupId == null) this.buffers.clear();
+    else this.buffers.delete(String(groupId));
+  }
+
+  private prune(buf: GroupContextEntry[], limits: GroupContextLimits): void {
+    const cutoff = Date.now() - limits.maxMinutes * 60 * 1000;
+    while (buf.length > 0 && (buf.length > limits.maxMessages || buf[0].time < cutoff)) buf.shift();
+  }
+}
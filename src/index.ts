@@ -15,7 +15,35 @@ import fs from 'fs';
 import path from 'path';
 import { GatewayClient } from './gateway-client';
 import { DEFAULT_CONFIG, buildConfigSchema } from './config';
-import type { PluginConfig, ExtractedMedia, ChatEventPayload, ContentBlock } from './types';
+import { StreamBuffer } from './stream-buffer';
+import { MessageDebouncer } from './debouncer';
+import { RunScheduler } from './run-scheduler';
+import { QuotaTracker, QUOTA_SCOPE_LABELS, QUOTA_WINDOW_LABELS, formatResetTime } from './quota';
+import type { QuotaUsage } from './quota';
+import { UsageStore, parseUsage, formatTokens } from './usage';
+import type { ChatUsage, UsageTotals } from './usage';
+import {
+  MODEL_COMMANDS, ROLE_LABELS, banUser, canUseCommand, expireBans, formatDuration, hasFeature, migrateLegacyPermissions,
+  notifyRecipients, parseDuration, resolveGrants, resolveRole, roleAtLeast, setMember, unbanUser,
+} from './permissions';
+import type { ResolvedGrants } from './permissions';
+import { describeGroupConfig, groupOverrideKeys, resolveGroupConfig, setGroupOverride, unsetGroupOverride } from './group-config';
+import type { ScopedConfig } from './group-config';
+import { AGENT_SOURCE_LABELS, AgentRouter, agentSessionKey, isValidAgentId, matchAgentPrefix } from './agent-router';
+import type { AgentRoute } from './agent-router';
+import { SessionStore, resolveSessionLink } from './session-store';
+import { normalizeSegments, parseSegments } from './message-segments';
+import { matchTrigger, resolveTriggerRules } from './triggers';
+import { GroupContextBuffer } from './group-context';
+import { parseMediaDirectives, resolveMediaDirective } from './media-directive';
+import type { MediaKind, MediaPolicy } from './media-directive';
+import { measure, splitText } from './text-splitter';
+import { renderMarkdown, stripFenceLines } from './markdown';
+import { SendError, SendQueue, SEND_FAILURE_LABELS } from './send-queue';
+import { buildOutboundSegments, leadingSegment } from './outbound-segments';
+import type { OutboundOptions } from './outbound-segments';
+import type { SegmentParseOptions } from './message-segments';
+import type { PluginConfig, ExtractedMedia, ChatEventPayload, ContentBlock, DebounceResult, ForwardRef, ParsedMessage, ReplyFormat, MessageSegment } from './types';
 
 const execAsync = promisify(exec);
 
@@ -24,47 +52,62 @@ let logger: any = null;
 let configPath: string | null = null;
 let botUserId: string | number | null = null;
 let gatewayClient: GatewayClient | null = null;
-let currentConfig: PluginConfig = { ...DEFAULT_CONFIG };
+// 深拷贝默认配置：/oc 等指令会原地修改 currentConfig 的嵌套字段
+let currentConfig: PluginConfig = structuredClone(DEFAULT_CONFIG);
 let cacheCleanupTimer: ReturnType<typeof setInterval> | null = null;
+let banSweepTimer: ReturnType<typeof setInterval> | null = null;
 
 // ========== Send Rate Limiter ==========
 
-const sendQueue: Array<() => Promise<void>> = [];
-let lastSendTime = 0;
-let sendQueueProcessing = false;
-
-function getSendIntervalMs(): number {
-  return currentConfig.behavior.sendIntervalMs ?? 2000;
+const sendQueue = new SendQueue({
+  targetIntervalMs: () => currentConfig.behavior.sendIntervalMs ?? 2000,
+  globalIntervalMs: () => currentConfig.behavior.sendGlobalIntervalMs ?? 500,
+  maxRetries: () => currentConfig.behavior.sendMaxRetries ?? 3,
+  retryBaseMs: () => currentConfig.behavior.sendRetryBaseMs ?? 1000,
+  onRetry: (target, attempt, delay, e: any) => {
+    logger?.warn(`[OpenClaw] 发送到 ${target} 失败，${delay}ms 后第 ${attempt} 次重试: ${e?.message || e}`);
+  },
+});
+
+/** 发送目标：群与私聊各自独立排队 */
+function sendTarget(messageType: string, id: any): string {
+  return `${messageType === 'group' ? 'group' : 'private'}:${id}`;
 }
 
-async function processSendQueue(): Promise<void> {
-  if (sendQueueProcessing) return;
-  sendQueueProcessing = true;
-  while (sendQueue.length > 0) {
-    const now = Date.now();
-    const interval = getSendIntervalMs();
-    const wait = interval - (now - lastSendTime);
-    if (wait > 0) await sleep(wait);
-    const task = sendQueue.shift();
-    if (task) {
-      lastSendTime = Date.now();
-      try { await task(); } catch (e: any) { logger?.error(`[OpenClaw] 队列发送失败: ${e.message}`); }
-    }
+async function rateLimitedSend(ctx: any, target: string, fn: () => Promise<unknown>): Promise<void> {
+  const pending = sendQueue.pending(target);
+  if (pending > 0) logger?.info(`[OpenClaw] 发送排队 ${target}，前方 ${pending} 条，总队列: ${sendQueue.size}`);
+  try {
+    await sendQueue.enqueue(target, fn);
+  } catch (e) {
+    if (e instanceof SendError && e.permanent) reportSendFailure(ctx, e);
+    throw e;
   }
-  sendQueueProcessing = false;
 }
 
-async function rateLimitedSend(fn: () => Promise<void>): Promise<void> {
-  const interval = getSendIntervalMs();
-  if (interval <= 0) return fn();
-  const now = Date.now();
-  if (sendQueue.length === 0 && now - lastSendTime >= interval) {
-    lastSendTime = now;
-    return fn();
+// 同一目标、同一类失败在该时间内只通知一次管理员
+const FAILURE_NOTICE_COOLDOWN_MS = 30 * 60 * 1000;
+const failureNoticeTimes = new Map<string, number>();
+/** 永久发送失败：记录日志并私聊通知管理员（通知本身失败不再上报） */
+function reportSendFailure(ctx: any, error: SendError): void {
+  const label = SEND_FAILURE_LABELS[error.kind];
+  logger?.error(`[OpenClaw] 发送到 ${error.target} 失败（${label}）: ${error.message}`);
+
+  const key = `${error.target}:${error.kind}`;
+  const last = failureNoticeTimes.get(key);
+  if (last && Date.now() - last < FAILURE_NOTICE_COOLDOWN_MS) return;
+  failureNoticeTimes.set(key, Date.now());
+
+  const notice = `⚠️ 消息发送失败\n目标: ${error.target}\n原因: ${label}\n详情: ${error.message.slice(0, 200)}`;
+  for (const admin of notifyRecipients(currentConfig.permissions)) {
+    const target = sendTarget('private', admin);
+    if (target === error.target) continue;
+    ctx.actions.call('send_private_msg', {
+      user_id: String(admin), message: [{ type: 'text', data: { text: notice } }],
+    }, ctx.adapterName, ctx.pluginManager?.config).catch((e: any) => {
+      logger?.warn(`[OpenClaw] 通知管理员 ${admin} 失败: ${e.message}`);
+    });
   }
-  sendQueue.push(fn);
-  logger?.info(`[OpenClaw] 发送速率限制，当前队列: ${sendQueue.length}`);
-  processSendQueue();
 }
 
 // ========== Media Cache ==========
@@ -149,6 +192,92 @@ async function downloadMedia(url: string, ext: string): Promise<string | null> {
   }
 }
 
+/** 媒体所在的会话，用于通过群文件 / 私聊文件接口换取下载地址 */
+interface MediaScope {
+  groupId?: number | string;
+  userId?: number | string;
+  /** 发送者没有 media 功能时为 false：引用与转发中的媒体不下载、不附带给 Agent */
+  allowed?: boolean;
+}
+
+async function callFileAction(ctx: any, action: string, params: any): Promise<any> {
+  const result = await ctx.actions.call(action, params, ctx.adapterName, ctx.pluginManager?.config);
+  return result?.data || result;
+}
+
+/**
+ * 为没有 url 的文件 / 语音 / 视频补全来源：先 get_file（可能直接得到本地路径），
+ * 再按会话类型尝试 get_group_file_url / get_private_file_url。
+ */
+async function resolveMediaSource(ctx: any, m: ExtractedMedia, scope: MediaScope): Promise<void> {
+  if (m.url || m.path || !m.file_id) return;
+
+  try {
+    const info = await callFileAction(ctx, 'get_file', { file_id: m.file_id, file: m.file_id });
+    if (info?.url && /^https?:\/\//.test(info.url)) m.url = info.url;
+    else if (info?.file && fs.existsSync(info.file)) m.path = info.file;
+    if (!m.name && info?.file_name) m.name = info.file_name;
+    if (m.url || m.path) return;
+  } catch (e: any) {
+    logger?.warn(`[OpenClaw] get_file 失败 ${m.file_id}: ${e.message}`);
+  }
+
+  if (m.type !== 'file') return;
+  try {
+    const info = scope.groupId
+      ? await callFileAction(ctx, 'get_group_file_url', { group_id: String(scope.groupId), file_id: m.file_id })
+      : await callFileAction(ctx, 'get_private_file_url', { user_id: scope.userId != null ? String(scope.userId) : undefined, file_id: m.file_id });
+    if (info?.url) m.url = info.url;
+  } catch (e: any) {
+    logger?.warn(`[OpenClaw] 获取文件下载地址失败 ${m.file_id}: ${e.message}`);
+  }
+}
+
+function copyToCache(src: string, ext: string): string | null {
+  try {
+    ensureCacheDir();
+    const size = fs.statSync(src).size;
+    evictOldestFiles(size);
+    const filepath = path.join(getCachePath(), `${randomUUID()}${ext}`);
+    fs.copyFileSync(src, filepath);
+    return filepath;
+  } catch (e: any) {
+    logger?.warn(`[OpenClaw] 复制文件到缓存失败: ${e.message}`);
+    return null;
+  }
+}
+
+/** 将媒体项渲染为 [type: url] 行，开启缓存时先下载到本地 */
+async function formatMediaLines(ctx: any, media: ExtractedMedia[], scope: MediaScope = {}): Promise<string[]> {
+  if (scope.allowed === false) return [];
+  const lines: string[] = [];
+  for (const m of media) {
+    await resolveMediaSource(ctx, m, scope);
+    const nameSuffix = m.name ? ` (${m.name})` : '';
+    const extMap: Record<string, string> = { image: '.jpg', file: '', voice: '.amr', video: '.mp4' };
+    const ext = m.name ? path.extname(m.name) : (extMap[m.type] || '');
+
+    if (m.path) {
+      const localPath = currentConfig.media.cacheEnabled ? copyToCache(m.path, ext) : null;
+      lines.push(`[${m.type}: file://${localPath || m.path}${nameSuffix}]`);
+      continue;
+    }
+    if (!m.url) {
+      lines.push(`[${m.type}: 获取失败，无法下载${nameSuffix}]`);
+      continue;
+    }
+    if (currentConfig.media.cacheEnabled) {
+      const localPath = await downloadMedia(m.url, ext);
+      if (localPath) {
+        lines.push(`[${m.type}: file://${localPath}${nameSuffix}]`);
+        continue;
+      }
+    }
+    lines.push(`[${m.type}: ${m.url}${nameSuffix}]`);
+  }
+  return lines;
+}
+
 // ========== Local Commands ==========
 
 function cmdHelp(): string {
@@ -156,53 +285,472 @@ function cmdHelp(): string {
     'ℹ️ Help',
     '',
     'Session',
-    '  /new  |  /clear  |  /stop',
+    '  /new  |  /clear  |  /stop  |  /agent [名称]',
+    '  /sessions  |  /resume <序号>  |  /link  |  /unlink',
     '',
     'Options',
     '  /think <level>  |  /model <id>  |  /verbose on|off',
     '',
     'Status',
-    '  /status  |  /whoami  |  /context',
+    '  /status  |  /whoami  |  /context  |  /quota  |  /usage',
+    '',
+    'Admin',
+    '  /oc  (allow | deny | ban | unban | group | admins | config | set)',
     '',
     '所有 OpenClaw 命令均可直接使用',
     '更多: /commands',
   ].join('\n');
 }
 
-function cmdWhoami(
-  sessionBase: string,
-  userId: number | string,
-  nickname: string,
-  messageType: string,
-  groupId?: number | string
-): string {
-  const epoch = sessionEpochs.get(sessionBase) || 0;
-  const sessionKey = epoch > 0 ? `${sessionBase}-${epoch}` : sessionBase;
-  return [
+/** 本地指令的调用上下文 */
+interface CommandContext {
+  ctx: any;
+  sessionBase: string;
+  userId: number | string;
+  nickname: string;
+  messageType: string;
+  groupId?: number | string;
+  args: string;
+  grants: ResolvedGrants;
+  /** 本条消息路由到的 Agent */
+  agent: AgentRoute;
+}
+
+function cmdWhoami({ sessionBase, userId, nickname, messageType, groupId, grants, agent }: CommandContext): string {
+  const lines = [
     `👤 ${nickname}`,
     `QQ: ${userId}`,
+    `角色: ${ROLE_LABELS[grants.role]} (${grants.role})`,
     `类型: ${messageType === 'private' ? '私聊' : `群聊 (${groupId})`}`,
-    `Session: ${sessionKey}`,
-  ].join('\n');
+    `Agent: ${agentLabel(agent.agent)}（${AGENT_SOURCE_LABELS[agent.source]}）`,
+    `Session: ${getSessionKey(sessionBase, agent.agent)}`,
+  ];
+  if (sessionBase !== getSessionBase(messageType, userId, groupId)) lines.push('关联: 与私聊共享会话（/unlink 取消）');
+  const overrides = messageType === 'group' && groupId != null ? groupOverrideKeys(currentConfig, groupId).length : 0;
+  if (overrides > 0) lines.push(`群配置: ${overrides} 项覆盖（/oc config 查看）`);
+  return lines.join('\n');
+}
+
+function cmdQuota({ userId, messageType, groupId, grants }: CommandContext): string {
+  if (!currentConfig.quota.enabled) return '📊 未启用使用配额';
+  if (hasFeature(grants, 'quotaExempt')) return '📊 你的角色不受使用配额限制';
+  const usage = quotaTracker.usage({ userId, groupId: messageType === 'group' ? groupId : undefined }, currentConfig.quota);
+  if (usage.length === 0) return '📊 当前没有使用次数限制';
+  const lines = usage.map((u) => {
+    const left = Math.max(0, u.limit - u.used);
+    const reset = left === 0 ? `，${formatResetTime(u.resetAt)} 恢复` : '';
+    return `${QUOTA_SCOPE_LABELS[u.scope]}${QUOTA_WINDOW_LABELS[u.window]}: 剩余 ${left}/${u.limit}${reset}`;
+  });
+  return ['📊 使用配额', ...lines].join('\n');
+}
+
+function cmdUsage({ userId, messageType, groupId, args, grants }: CommandContext): string {
+  const cfg = currentConfig.usage;
+  if (!cfg.enabled) return '📈 未启用用量统计';
+
+  const [sub, daysArg] = args.split(/\s+/);
+  if (sub === 'top') {
+    if (!roleAtLeast(grants.role, 'admin')) return '⛔ 仅管理员可查看用量排行';
+    const days = Math.min(Math.max(1, parseInt(daysArg, 10) || 1), cfg.retainDays);
+    const top = usageStore.topUsers(days, USAGE_TOP_LIMIT);
+    if (top.length === 0) return '📈 暂无用量记录';
+    const lines = top.map((t, i) => formatUsageLine(`${i + 1}. ${t.name || t.userId}(${t.userId})`, t.totals));
+    return [`📈 用量排行（${days === 1 ? '今日' : `近 ${days} 天`}）`, ...lines].join('\n');
+  }
+
+  const today = usageStore.totals('user', userId);
+  const lines = [
+    '📈 用量统计',
+    formatUsageLine('个人今日', today),
+    formatUsageLine(`个人近 ${cfg.retainDays} 天`, usageStore.totals('user', userId, cfg.retainDays)),
+  ];
+  if (messageType === 'group' && groupId) lines.push(formatUsageLine('本群今日', usageStore.totals('group', groupId)));
+  const models = Object.entries(today.models).sort((a, b) => b[1] - a[1]);
+  if (models.length > 0) lines.push(`今日模型: ${models.map(([m, n]) => `${m} ${formatTokens(n)}`).join('，')}`);
+  if (cfg.userDailyTokens > 0 && !hasFeature(grants, 'quotaExempt')) {
+    lines.push(`今日额度: ${formatTokens(today.totalTokens)} / ${formatTokens(cfg.userDailyTokens)}`);
+  }
+  return lines.join('\n');
+}
+
+function cmdAgent({ sessionBase, userId, nickname, messageType, groupId, args, grants, agent }: CommandContext): string {
+  const cfg = currentConfig.agents;
+  const name = args.split(/\s+/)[0] || '';
+  if (!name) {
+    return [
+      `🤖 当前 Agent: ${agentLabel(agent.agent)}（${AGENT_SOURCE_LABELS[agent.source]}）`,
+      `可切换: ${cfg.available.join(', ') || '无'}`,
+      '切换: /agent <名称>  |  恢复默认: /agent reset',
+    ].join('\n');
+  }
+
+  let selected: string | null = name;
+  if (name.toLowerCase() === 'reset') {
+    selected = null;
+  } else {
+    if (!isValidAgentId(name)) return `❌ 无效的 Agent 名称: ${name}`;
+    if (!roleAtLeast(grants.role, 'admin') && !cfg.available.includes(name)) {
+      return cfg.available.length > 0 ? `⛔ 不可切换到 ${name}，可选: ${cfg.available.join(', ')}` : '⛔ 当前没有可切换的 Agent';
+    }
+  }
+
+  try {
+    agentRouter.select(sessionBase, selected);
+  } catch (e: any) {
+    logger?.warn(`[OpenClaw] 保存 Agent 选择失败: ${e.message}`);
+  }
+  const route = agentRouter.resolve(cfg, { userId, groupId: messageType === 'group' ? groupId : undefined, sessionBase });
+  logger?.info(`[OpenClaw] ${nickname}(${userId}) 切换 Agent: ${sessionBase} → ${agentLabel(route.agent)}`);
+  return `✅ 已切换到 Agent ${agentLabel(route.agent)}\nSession: ${getSessionKey(sessionBase, route.agent)}`;
+}
+
+function cmdSessions({ sessionBase, agent }: CommandContext): string {
+  const entries = sessionStore.list(sessionBase);
+  if (entries.length === 0) return `🗂 当前会话: ${getSessionKey(sessionBase, agent.agent)}\n暂无历史会话`;
+  const current = sessionStore.epoch(sessionBase);
+  const lines = entries.map((e, i) => {
+    const key = agentSessionKey(agent.agent, sessionStore.key(sessionBase, e.epoch));
+    return `${e.epoch === current ? '▶' : '  '} ${i + 1}. ${key} · 最近 ${formatResetTime(e.lastActive)}`;
+  });
+  return ['🗂 历史会话（▶ 为当前）', ...lines, '切换: /resume <序号>'].join('\n');
+}
+
+function cmdResume({ sessionBase, userId, nickname, args, agent }: CommandContext): string {
+  const entries = sessionStore.list(sessionBase);
+  const entry = entries[parseInt(args, 10) - 1];
+  if (!entry) return entries.length > 0 ? `用法: /resume <序号>（1-${entries.length}，见 /sessions）` : '暂无历史会话';
+  sessionStore.resume(sessionBase, entry.epoch);
+  const sessionKey = getSessionKey(sessionBase, agent.agent);
+  logger?.info(`[OpenClaw] ${nickname}(${userId}) 切换会话: ${sessionKey}`);
+  return `✅ 已切换到会话 ${sessionKey}`;
+}
+
+function cmdLink({ userId, nickname, messageType, groupId, agent }: CommandContext): string {
+  const links = currentConfig.sessions.links;
+  const privateBase = getSessionBase('private', userId);
+  if (messageType !== 'group' || !groupId) {
+    const linked = Object.keys(links).filter((base) => resolveSessionLink(links, base) === privateBase);
+    if (linked.length === 0) return '🔗 暂无关联的群会话，在群内发送 /link 可与私聊共享会话';
+    return ['🔗 已与私聊共享会话的群会话', ...linked.map((base) => `  ${base}`), '取消: /unlink <群号> 或 /unlink all'].join('\n');
+  }
+  // Shared group sessions hold everyone's messages and must never be merged with a private chat
+  if (scopedConfig(groupId).behavior.groupSessionMode === 'shared') return '⛔ 本群为共享会话，不能关联';
+
+  const groupBase = getSessionBase('group', userId, groupId);
+  if (links[groupBase] === privateBase) return `🔗 本群会话已与私聊关联\nSession: ${getSessionKey(privateBase, agent.agent)}`;
+  links[groupBase] = privateBase;
+  const saved = saveConfig();
+  logger?.info(`[OpenClaw] ${nickname}(${userId}) 关联会话: ${groupBase} → ${privateBase}`);
+  return `✅ 已将本群会话与私聊关联，之后在两处的对话共享上下文\nSession: ${getSessionKey(privateBase, agent.agent)}${saved ? '' : '\n⚠️ 配置写入失败，重启后将丢失'}`;
+}
+
+function cmdUnlink({ userId, nickname, messageType, groupId, args }: CommandContext): string {
+  const links = currentConfig.sessions.links;
+  const privateBase = getSessionBase('private', userId);
+  let targets: string[];
+  if (messageType === 'group' && groupId) {
+    targets = [getSessionBase('group', userId, groupId)];
+  } else if (args.trim().toLowerCase() === 'all') {
+    targets = Object.keys(links).filter((base) => resolveSessionLink(links, base) === privateBase);
+  } else {
+    const gid = parseQQ(args);
+    if (!gid) return '用法: /unlink <群号> 或 /unlink all（群内直接发送 /unlink）';
+    targets = [getSessionBase('group', userId, gid)];
+  }
+
+  const removed = targets.filter((base) => links[base] === privateBase);
+  if (removed.length === 0) return '🔗 没有可取消的关联';
+  for (const base of removed) delete links[base];
+  const saved = saveConfig();
+  logger?.info(`[OpenClaw] ${nickname}(${userId}) 取消会话关联: ${removed.join(', ')}`);
+  return `✅ 已取消 ${removed.length} 个关联，群内对话恢复为独立会话${saved ? '' : '\n⚠️ 配置写入失败，重启后将丢失'}`;
+}
+
+const OC_USAGE = [
+  '🛠 管理指令（仅全局管理员）',
+  '/oc allow <QQ> — 加入允许列表并解除封禁',
+  '/oc deny <QQ> — 移出允许 / 信任 / 管理员列表',
+  '/oc ban <QQ> [时长] — 封禁，时长如 30m、2h、7d，不填为永久',
+  '/oc unban <QQ> — 解除封禁',
+  '/oc group on|off [群号] — 启用 / 停用群（群内可省略群号）',
+  '/oc admins [add|remove <QQ>] — 查看 / 修改管理员（修改仅所有者）',
+  '/oc config [群号] — 查看群的生效配置（* 为本群覆盖项）',
+  '/oc set <配置项> <值> — 在群内覆盖 behavior / media 配置，如 /oc set groupAtOnly off',
+  '/oc unset <配置项> — 在群内恢复为全局配置',
+].join('\n');
+
+function parseQQ(arg: string | undefined): number | null {
+  const m = arg?.match(/\d{5,12}/);
+  return m ? Number(m[0]) : null;
 }
 
-const LOCAL_COMMANDS: Record<string, (...args: any[]) => string> = {
+function cmdOc({ userId, nickname, messageType, groupId, args }: CommandContext): string {
+  const globalRole = resolveRole(currentConfig.permissions, { userId });
+  if (!roleAtLeast(globalRole, 'admin')) return '⛔ 仅全局管理员可使用 /oc';
+
+  const perms = currentConfig.permissions;
+  const [sub = '', ...rest] = args.split(/\s+/).filter(Boolean);
+  const qq = parseQQ(rest[0]);
+  let summary: string;
+
+  switch (sub.toLowerCase()) {
+    case 'allow': {
+      if (!qq) return '用法: /oc allow <QQ>';
+      unbanUser(perms, qq);
+      setMember(perms, 'users', qq, true);
+      summary = `已允许 ${qq} 使用`;
+      break;
+    }
+    case 'deny': {
+      if (!qq) return '用法: /oc deny <QQ>';
+      if (listedIn(perms.owners, qq)) return '⛔ 不能移除所有者';
+      if (listedIn(perms.admins, qq) && globalRole !== 'owner') return '⛔ 仅所有者可移除管理员';
+      for (const key of ['users', 'trusted', 'admins'] as const) setMember(perms, key, qq, false);
+      summary = perms.defaultRole === 'user'
+        ? `已将 ${qq} 移出允许列表（默认角色为普通用户，仍可使用；如需禁止请用 /oc ban）`
+        : `已将 ${qq} 移出允许列表`;
+      break;
+    }
+    case 'ban': {
+      if (!qq) return '用法: /oc ban <QQ> [时长]';
+      if (listedIn(perms.owners, qq) || String(qq) === String(userId)) return '⛔ 不能封禁所有者或自己';
+      if (listedIn(perms.admins, qq) && globalRole !== 'owner') return '⛔ 仅所有者可封禁管理员';
+      const duration = rest[1] ? parseDuration(rest[1]) : null;
+      if (rest[1] && !duration) return `无法识别的时长: ${rest[1]}（如 30m、2h、7d）`;
+      banUser(perms, qq, duration);
+      summary = duration ? `已封禁 ${qq} ${formatDuration(duration)}` : `已永久封禁 ${qq}`;
+      break;
+    }
+    case 'unban': {
+      if (!qq) return '用法: /oc unban <QQ>';
+      summary = unbanUser(perms, qq) ? `已解除 ${qq} 的封禁` : `${qq} 未被封禁`;
+      break;
+    }
+    case 'group': {
+      const action = rest[0]?.toLowerCase();
+      const target = parseQQ(rest[1]) ?? (messageType === 'group' ? Number(groupId) : null);
+      if ((action !== 'on' && action !== 'off') || !target) return '用法: /oc group on|off [群号]';
+      setGroupEnabled(target, action === 'on');
+      summary = action === 'on' ? `已启用群 ${target}` : `已停用群 ${target}`;
+      break;
+    }
+    case 'admins': {
+      const action = rest[0]?.toLowerCase();
+      if (action === 'add' || action === 'remove') {
+        const target = parseQQ(rest[1]);
+        if (globalRole !== 'owner') return '⛔ 仅所有者可修改管理员';
+        if (!target) return `用法: /oc admins ${action} <QQ>`;
+        setMember(perms, 'admins', target, action === 'add');
+        summary = action === 'add' ? `已将 ${target} 设为管理员` : `已移除管理员 ${target}`;
+        break;
+      }
+      return [
+        '👑 所有者: ' + (perms.owners.join(', ') || '无'),
+        '🛡 管理员: ' + (perms.admins.join(', ') || '无'),
+      ].join('\n');
+    }
+    case 'config': {
+      const target = parseQQ(rest[0]) ?? (messageType === 'group' ? Number(groupId) : null);
+      if (!target) return '用法: /oc config [群号]（群内可省略群号）';
+      return [`⚙️ 群 ${target} 生效配置`, ...describeGroupConfig(currentConfig, target)].join('\n');
+    }
+    case 'set': {
+      if (messageType !== 'group' || !groupId) return '⛔ 请在要修改的群内使用 /oc set';
+      if (!rest[0] || rest.length < 2) return '用法: /oc set <配置项> <值>（列表用逗号分隔，空字符串写 ""）';
+      const result = setGroupOverride(currentConfig, groupId, rest[0], rest.slice(1).join(' '));
+      if (!result.ok) return `❌ ${result.reason}`;
+      summary = `已将群 ${groupId} 的 ${result.key} 设为 ${JSON.stringify(result.value)}`;
+      break;
+    }
+    case 'unset': {
+      if (messageType !== 'group' || !groupId) return '⛔ 请在要修改的群内使用 /oc unset';
+      if (!rest[0]) return '用法: /oc unset <配置项>';
+      if (!unsetGroupOverride(currentConfig, groupId, rest[0])) return `群 ${groupId} 未覆盖 ${rest[0]}`;
+      summary = `已将群 ${groupId} 的 ${rest[0]} 恢复为全局配置`;
+      break;
+    }
+    default:
+      return OC_USAGE;
+  }
+
+  const saved = saveConfig();
+  logger?.info(`[OpenClaw] 管理指令 ${nickname}(${userId}): ${summary}`);
+  return `✅ ${summary}${saved ? '' : '\n⚠️ 配置写入失败，重启后将丢失'}`;
+}
+
+const LOCAL_COMMANDS: Record<string, (c: CommandContext) => string | Promise<string>> = {
   '/help': cmdHelp,
   '/whoami': cmdWhoami,
+  '/quota': cmdQuota,
+  '/usage': cmdUsage,
+  '/agent': cmdAgent,
+  '/sessions': cmdSessions,
+  '/resume': cmdResume,
+  '/link': cmdLink,
+  '/unlink': cmdUnlink,
+  '/oc': cmdOc,
 };
 
+// ========== Access Control ==========
+
+function listedIn(list: Array<number | string>, id: number | string): boolean {
+  return list.some((x) => Number(x) === Number(id));
+}
+
+function isGlobalAdmin(userId: number | string): boolean {
+  return roleAtLeast(resolveRole(currentConfig.permissions, { userId }), 'admin');
+}
+
+function isGroupEnabled(groupId: number | string): boolean {
+  const { groupWhitelist, groupBlacklist } = currentConfig.behavior;
+  if (listedIn(groupBlacklist, groupId)) return false;
+  return groupWhitelist.length === 0 || listedIn(groupWhitelist, groupId);
+}
+
+/** 启用时移出停用列表（白名单非空时同时加入白名单），停用时加入停用列表 */
+function setGroupEnabled(groupId: number, enabled: boolean): void {
+  const behavior = currentConfig.behavior;
+  behavior.groupBlacklist = behavior.groupBlacklist.filter((id) => Number(id) !== groupId);
+  if (enabled) {
+    if (behavior.groupWhitelist.length > 0 && !listedIn(behavior.groupWhitelist, groupId)) {
+      behavior.groupWhitelist = [...behavior.groupWhitelist, groupId];
+    }
+  } else {
+    behavior.groupBlacklist = [...behavior.groupBlacklist, groupId];
+  }
+}
+
+const BAN_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** 解除到期的临时封禁并保存 */
+function sweepExpiredBans(): void {
+  const expired = expireBans(currentConfig.permissions);
+  if (expired.length === 0) return;
+  logger?.info(`[OpenClaw] 临时封禁已到期: ${expired.join(', ')}`);
+  saveConfig();
+}
+
+// ========== Usage Quota ==========
+
+const quotaTracker = new QuotaTracker();
+// 同一用户的超限提示最短间隔，避免连续刷屏
+const QUOTA_NOTICE_COOLDOWN_MS = 60 * 1000;
+const quotaNoticeTimes = new Map<string, number>();
+
+/** 冷却期内返回 false；否则记录本次时间，并顺带清理已过冷却期的条目 */
+function takeNoticeSlot(times: Map<string, number>, key: string, cooldownMs: number): boolean {
+  const now = Date.now();
+  const last = times.get(key);
+  if (last && now - last < cooldownMs) return false;
+  for (const [k, t] of times) {
+    if (now - t >= cooldownMs) times.delete(k);
+  }
+  times.set(key, now);
+  return true;
+}
+
+function getDataPath(name: string): string | null {
+  return configPath ? path.join(path.dirname(configPath), name) : null;
+}
+
+/** 检查配额，返回用尽的窗口；未启用或豁免时返回 null */
+function checkQuota(userId: number | string, groupId: number | string | undefined, exempt: boolean): QuotaUsage | null {
+  if (!currentConfig.quota.enabled || exempt) return null;
+  return quotaTracker.check({ userId, groupId }, currentConfig.quota);
+}
+
+function recordQuota(userId: number | string, groupId: number | string | undefined, exempt: boolean): void {
+  if (!currentConfig.quota.enabled || exempt) return;
+  quotaTracker.record({ userId, groupId });
+}
+
+function formatQuotaExceeded(usage: QuotaUsage): string {
+  return currentConfig.quota.exceededMessage
+    .replace(/\{scope\}/g, QUOTA_SCOPE_LABELS[usage.scope])
+    .replace(/\{window\}/g, QUOTA_WINDOW_LABELS[usage.window])
+    .replace(/\{limit\}/g, String(usage.limit))
+    .replace(/\{reset\}/g, formatResetTime(usage.resetAt));
+}
+
+// ========== Usage Accounting ==========
+
+const usageStore = new UsageStore();
+const USAGE_TOP_LIMIT = 10;
+
+function recordUsage(meta: AgentRequestMeta, sessionKey: string, usage: ChatUsage): void {
+  if (!currentConfig.usage.enabled) return;
+  usageStore.record(
+    {
+      userId: meta.userId,
+      groupId: meta.messageType === 'group' ? meta.groupId : undefined,
+      sessionKey,
+      nickname: meta.nickname,
+    },
+    usage,
+    currentConfig.usage.retainDays
+  );
+  logger?.info(`[OpenClaw] 用量: ${meta.userId} ${usage.totalTokens} tokens${usage.model ? ` (${usage.model})` : ''}`);
+}
+
+/** 每日 token 额度检查，用尽时返回提示文本；豁免时返回 null */
+function checkTokenBudget(userId: number | string, groupId: number | string | undefined, exempt: boolean): string | null {
+  const cfg = currentConfig.usage;
+  if (!cfg.enabled || exempt) return null;
+  const checks: Array<[string, number, UsageTotals]> = [
+    ['个人', cfg.userDailyTokens, usageStore.totals('user', userId)],
+    ['全局', cfg.globalDailyTokens, usageStore.totals('global', null)],
+  ];
+  if (groupId != null) checks.splice(1, 0, ['本群', cfg.groupDailyTokens, usageStore.totals('group', groupId)]);
+  for (const [scope, limit, totals] of checks) {
+    if (limit > 0 && totals.totalTokens >= limit) {
+      return cfg.budgetExceededMessage
+        .replace(/\{scope\}/g, scope)
+        .replace(/\{limit\}/g, formatTokens(limit));
+    }
+  }
+  return null;
+}
+
+function formatUsageLine(label: string, totals: UsageTotals): string {
+  const cost = totals.cost > 0 ? ` · $${totals.cost.toFixed(4)}` : '';
+  return `${label}: ${formatTokens(totals.totalTokens)} tokens（${totals.runs} 次，输入 ${formatTokens(totals.inputTokens)} / 输出 ${formatTokens(totals.outputTokens)}）${cost}`;
+}
+
+// ========== Agent Routing ==========
+
+const agentRouter = new AgentRouter();
+
+function agentLabel(agent: string): string {
+  return agent || '默认';
+}
+
 // ========== Session Management ==========
-const sessionEpochs = new Map<string, number>();
+
+const sessionStore = new SessionStore();
+// 转发给 Gateway 前先在本地开始新会话，旧会话仍可 /resume
+const SESSION_RESET_COMMANDS = ['/new', '/clear', '/reset'];
 
 function getSessionBase(messageType: string, userId: number | string, groupId?: number | string): string {
   if (messageType === 'private') return `qq-${userId}`;
-  if (currentConfig.behavior.groupSessionMode === 'shared') return `qq-g${groupId}`;
+  if (scopedConfig(groupId).behavior.groupSessionMode === 'shared') return `qq-g${groupId}`;
   return `qq-g${groupId}-${userId}`;
 }
 
-function getSessionKey(sessionBase: string): string {
-  const epoch = sessionEpochs.get(sessionBase) || 0;
-  return epoch > 0 ? `${sessionBase}-${epoch}` : sessionBase;
+/** 按 sessions.links 将会话基址映射到关联的规范基址（如群内个人会话 → 私聊会话） */
+function getLinkedSessionBase(messageType: string, userId: number | string, groupId?: number | string): string {
+  return resolveSessionLink(currentConfig.sessions.links, getSessionBase(messageType, userId, groupId));
+}
+
+function getSessionKey(sessionBase: string, agent = ''): string {
+  return agentSessionKey(agent, sessionStore.key(sessionBase));
+}
+
+/** 会话空闲超时后开始新会话，需在读取 sessionKey 之前调用 */
+function expireIdleSession(messageType: string, sessionBase: string): void {
+  const cfg = currentConfig.sessions;
+  const idleMinutes = messageType === 'group' ? cfg.groupIdleMinutes : cfg.privateIdleMinutes;
+  const epoch = sessionStore.expireIfIdle(sessionBase, idleMinutes * 60 * 1000, cfg.maxHistory);
+  if (epoch != null) logger?.info(`[OpenClaw] 会话 ${sessionBase} 空闲超过 ${idleMinutes} 分钟，已开始新会话 #${epoch}`);
 }
 
 // ========== Gateway ==========
@@ -215,112 +763,157 @@ async function getGateway(): Promise<GatewayClient> {
       logger
     );
   }
+  if (!gatewayClient.onUnmatchedChat) {
+    gatewayClient.onUnmatchedChat = handleUnmatchedChat;
+  }
   if (!gatewayClient.connected) {
     await gatewayClient.connect();
   }
   return gatewayClient;
 }
 
-// ========== QQ Face Emoji Map ==========
-
-const FACE_MAP: Record<number, string> = {
-  0:'惊讶',1:'撇嘴',2:'色',3:'发呆',4:'得意',5:'流泪',6:'害羞',7:'闭嘴',8:'睡',9:'大哭',
-  10:'尴尬',11:'发怒',12:'调皮',13:'呲牙',14:'微笑',15:'难过',16:'酷',18:'抓狂',19:'吐',
-  20:'偷笑',21:'可爱',22:'白眼',23:'傲慢',24:'饥饿',25:'困',26:'惊恐',27:'流汗',28:'憨笑',
-  29:'悠闲',30:'奋斗',31:'咒骂',32:'疑问',33:'嘘',34:'晕',35:'折磨',36:'衰',37:'骷髅',
-  38:'敲打',39:'再见',46:'猪头',49:'拥抱',53:'蛋糕',54:'闪电',55:'炸弹',56:'刀',57:'足球',
-  59:'便便',60:'咖啡',61:'饭',63:'玫瑰',64:'凋谢',66:'爱心',67:'心碎',69:'礼物',74:'太阳',
-  75:'月亮',76:'赞',77:'踩',78:'握手',79:'胜利',85:'飞吻',86:'怄火',89:'西瓜',96:'冷汗',
-  97:'擦汗',98:'抠鼻',99:'鼓掌',100:'糗大了',101:'坏笑',102:'左哼哼',103:'右哼哼',104:'哈欠',
-  105:'鄙视',106:'委屈',107:'快哭了',108:'阴险',109:'亲亲',110:'吓',111:'可怜',112:'菜刀',
-  113:'啤酒',114:'篮球',115:'乒乓',116:'示爱',117:'瓢虫',118:'抱拳',119:'勾引',120:'拳头',
-  121:'差劲',122:'爱你',123:'NO',124:'OK',125:'转圈',126:'磕头',127:'回头',128:'跳绳',
-  129:'挥手',130:'激动',131:'街舞',132:'献吻',133:'左太极',134:'右太极',136:'双喜',137:'鞭炮',
-  138:'灯笼',140:'K歌',141:'喝彩',142:'祈祷',143:'爆筋',144:'棒棒糖',145:'喝奶',146:'下面',
-  147:'香蕉',148:'飞机',149:'开车',150:'高铁左',151:'车厢',152:'高铁右',153:'多云',154:'下雨',
-  155:'钞票',156:'熊猫',157:'灯泡',158:'风车',159:'闹钟',160:'打伞',161:'彩球',162:'钻戒',
-  163:'沙发',164:'纸巾',165:'药',166:'手枪',167:'青蛙',168:'茶',169:'眨眼',170:'泪奔',
-  171:'无奈',172:'卖萌',173:'小纠结',174:'喷血',176:'惊喜',177:'骚扰',178:'小红花',179:'笑哭',
-  180:'我最美',181:'河蟹',182:'羊驼',185:'幽灵',187:'大笑',188:'不开心',189:'冷漠',190:'呃',
-  191:'好棒',192:'拜托',193:'点赞',194:'无聊',195:'托脸',196:'吃',197:'送花',198:'害怕',
-  199:'花痴',200:'小样儿',201:'飙泪',202:'我不看',203:'托腮',204:'啵啵',205:'糊脸',
-  206:'拍头',207:'扯一扯',208:'舔一舔',209:'蹭一蹭',210:'拽炸天',211:'顶呱呱',
-  212:'抱抱',213:'暴击',214:'开枪',215:'撩一撩',216:'拍桌',217:'拍手',218:'恭喜',
-  219:'干杯',220:'嘲讽',221:'哼',222:'佛系',223:'掐一掐',224:'惊呆',225:'颤抖',
-  226:'啃头',227:'偷看',228:'扇脸',229:'原谅',230:'喷脸',231:'生日快乐',232:'头撞击',
-  233:'甩头',234:'扔狗',237:'加油必胜',238:'加油抱抱',239:'口罩护体',240:'搬砖中',
-  241:'忙到飞起',242:'脑阔疼',243:'沧桑',244:'捂脸',245:'辣眼睛',246:'哦哟',247:'头秃',
-  260:'让我看看',261:'敬礼',262:'狗狗',263:'无眼笑',264:'敲开心',265:'我酸了',266:'太南了',
-  267:'辣椒酱',268:'汪汪',269:'汗',270:'打脸',271:'击掌',272:'无语',273:'社会社会',
-  274:'拍了拍',275:'宝贝',276:'贴贴',277:'骰子',278:'石头剪刀布',
-  281:'让我康康',282:'叹气',283:'菜汪',284:'狗头',285:'滑稽',286:'花朵脸',287:'我看看',
-  290:'摸鱼',293:'魔鬼笑',294:'哦',295:'请',296:'睁眼',297:'敲开心2',298:'摸锦鲤',
-  299:'期待',300:'拿到红包',301:'真好',302:'拜谢',303:'元宝',304:'牛啊',305:'胖三斤',
-  306:'好闪',307:'左拜年',308:'右拜年',309:'红包包',310:'右亲亲',311:'牛气冲天',
-  312:'喵喵',314:'仔细分析',315:'加油',316:'我没事',317:'菜狗',318:'崇拜',319:'比心',
-  320:'庆祝',322:'拒绝',324:'嫌弃',326:'吃糖',
-};
-
-function faceName(id: string | number): string {
-  return FACE_MAP[Number(id)] || `表情${id}`;
+/** 不属于任何进行中 run 的 chat 事件（超时后迟到的回复、其他客户端的 run 等） */
+function handleUnmatchedChat(payload: ChatEventPayload): void {
+  if (payload.state === 'delta') return;
+  logger?.info(
+    `[OpenClaw] 未匹配的 chat 事件: state=${payload.state} session=${payload.sessionKey} run=${payload.runId?.slice(0, 8)}`
+  );
 }
 
 // ========== Message Extraction ==========
 
-function extractMessage(segments: any[]): { extractedText: string; extractedMedia: ExtractedMedia[]; replyMessageId: string | null } {
-  const textParts: string[] = [];
-  const media: ExtractedMedia[] = [];
-  let replyMessageId: string | null = null;
+function segmentParseOptions(groupId?: number | string): SegmentParseOptions {
+  return {
+    botUserId,
+    mfaceAsImage: currentConfig.media.cacheEnabled && scopedConfig(groupId).media.parseMface,
+  };
+}
 
-  for (const seg of segments) {
-    switch (seg.type) {
-      case 'text': {
-        const t = seg.data?.text?.trim();
-        if (t) textParts.push(t);
-        break;
+/** 解析事件消息、引用消息或转发节点的内容（消息段数组或 CQ 码字符串），groupId 为消息所在群 */
+function extractMessage(message: unknown, rawMessage?: unknown, groupId?: number | string): ParsedMessage {
+  return parseSegments(normalizeSegments(message, rawMessage), segmentParseOptions(groupId));
+}
+
+// ========== Merged Forward ==========
+
+interface ForwardBudget {
+  items: number;
+  chars: number;
+}
+
+/** 一条入站消息内的所有合并转发（含引用消息中的转发）共享同一预算 */
+function createForwardBudget(groupId?: number | string): ForwardBudget {
+  const behavior = scopedConfig(groupId).behavior;
+  return { items: behavior.forwardMaxItems, chars: behavior.forwardMaxChars };
+}
+
+/**
+ * 展开合并转发为带发送者昵称的聊天记录文本，支持嵌套转发。
+ * 条数与字数共享同一预算，超出部分以省略提示代替；scope 为外层消息所在的群 / 私聊，用于获取转发中的文件。
+ */
+async function resolveForward(
+  ctx: any,
+  ref: ForwardRef,
+  groupId?: number | string,
+  depth = 1,
+  budget?: ForwardBudget,
+  scope: MediaScope = {}
+): Promise<string | null> {
+  const behavior = scopedConfig(groupId).behavior;
+  if (!behavior.resolveForward) return null;
+  budget ||= createForwardBudget(groupId);
+  try {
+    let nodes = ref.content;
+    if (!nodes && ref.id) {
+      const result = await ctx.actions.call(
+        'get_forward_msg',
+        { message_id: ref.id, id: ref.id },
+        ctx.adapterName,
+        ctx.pluginManager?.config
+      );
+      const data = result?.data || result;
+      nodes = data?.messages || data?.message || (Array.isArray(data) ? data : undefined);
+    }
+    if (!Array.isArray(nodes) || nodes.length === 0) return null;
+
+    const indent = '  '.repeat(depth - 1);
+    const lines: string[] = [`${indent}[合并转发 ${nodes.length} 条消息]`];
+    let omitted = 0;
+
+    for (const node of nodes) {
+      if (budget.items <= 0 || budget.chars <= 0) {
+        omitted++;
+        continue;
       }
-      case 'image':
-        if (seg.data?.url) media.push({ type: 'image', url: seg.data.url });
-        break;
-      case 'at':
-        if (String(seg.data?.qq) !== String(botUserId)) {
-          textParts.push(`@${seg.data?.name || seg.data?.qq}`);
-        }
-        break;
-      case 'file':
-        if (seg.data?.url) media.push({ type: 'file', url: seg.data.url, name: seg.data?.name });
-        break;
-      case 'record':
-        if (seg.data?.url) media.push({ type: 'voice', url: seg.data.url });
-        break;
-      case 'video':
-        if (seg.data?.url) media.push({ type: 'video', url: seg.data.url });
-        break;
-      case 'reply':
-        if (seg.data?.id) replyMessageId = String(seg.data.id);
-        break;
-      case 'face':
-        textParts.push(`[${faceName(seg.data?.id)}]`);
-        break;
-      case 'mface': {
-        const summary = seg.data?.summary || '[商城表情]';
-        if (currentConfig.media.cacheEnabled && currentConfig.media.parseMface) {
-          const emojiId = seg.data?.emoji_id;
-          if (emojiId) {
-            const url = `https://gxh.vip.qq.com/club/item/parcel/item/${emojiId.slice(0, 2)}/${emojiId}/raw300.gif`;
-            media.push({ type: 'image', url });
-          }
+      budget.items--;
+
+      const sender = node?.sender || node?.data || {};
+      const name = sender.nickname || sender.card || sender.name || sender.user_id || sender.uin || '未知';
+      const qq = sender.user_id || sender.uin || '';
+      const parsed = extractMessage(node?.message ?? node?.content ?? node?.data?.content, node?.raw_message, groupId);
+
+      const parts: string[] = [];
+      if (parsed.extractedText) parts.push(parsed.extractedText);
+      parts.push(...await formatMediaLines(ctx, parsed.extractedMedia, scope));
+      let line = `${indent}${name}${qq ? `(${qq})` : ''}: ${parts.join(' ')}`;
+      if (line.length > budget.chars) line = line.slice(0, budget.chars) + '…';
+      budget.chars -= line.length;
+      lines.push(line);
+
+      for (const nested of parsed.forwards) {
+        if (depth >= behavior.forwardMaxDepth) {
+          lines.push(`${indent}  [嵌套合并转发，已省略]`);
+          continue;
         }
-        textParts.push(summary);
-        break;
+        const transcript = await resolveForward(ctx, nested, groupId, depth + 1, budget, scope);
+        if (transcript) lines.push(transcript);
       }
     }
+
+    if (omitted > 0) lines.push(`${indent}…… 其余 ${omitted} 条已省略`);
+    lines.push(`${indent}[/合并转发]`);
+    return lines.join('\n');
+  } catch (e: any) {
+    logger?.warn(`[OpenClaw] 解析合并转发失败: ${e.message}`);
+    return null;
   }
+}
 
-  return { extractedText: textParts.join(' '), extractedMedia: media, replyMessageId };
+/**
+ * 解析被引用的消息，沿引用链最多追溯 behavior.replyMaxDepth 层。
+ * 返回的引用块按时间顺序排列（最早的引用在前），每层一个 [引用 ...] 块。
+ */
+async function resolveReply(
+  ctx: any,
+  messageId: string,
+  groupId?: number | string,
+  budget: ForwardBudget = createForwardBudget(groupId),
+  allowMedia = true,
+  depth = 1,
+  visited: Set<string> = new Set()
+): Promise<string | null> {
+  if (visited.has(messageId)) return null;
+  visited.add(messageId);
+
+  const quote = await fetchQuote(ctx, messageId, depth, groupId, budget, allowMedia);
+  if (!quote) return null;
+
+  const maxDepth = Math.max(1, scopedConfig(groupId).behavior.replyMaxDepth || 1);
+  if (quote.nestedReplyId && depth < maxDepth) {
+    const nested = await resolveReply(ctx, quote.nestedReplyId, groupId, budget, allowMedia, depth + 1, visited);
+    if (nested) return `${nested}\n${quote.block}`;
+  }
+  return quote.block;
 }
 
-async function resolveReply(ctx: any, messageId: string): Promise<string | null> {
+async function fetchQuote(
+  ctx: any,
+  messageId: string,
+  depth: number,
+  groupId: number | string | undefined,
+  budget: ForwardBudget,
+  allowMedia: boolean
+): Promise<{ block: string; nestedReplyId: string | null } | null> {
   try {
     const result = await ctx.actions.call(
       'get_msg',
@@ -334,102 +927,25 @@ async function resolveReply(ctx: any, messageId: string): Promise<string | null>
     const senderName = msg.sender?.nickname || msg.sender?.user_id || '未知';
     const senderQQ = msg.sender?.user_id || '';
 
-    const textParts: string[] = [];
-    const mediaItems: ExtractedMedia[] = [];
-
-    // Try segments array first
-    const segments = Array.isArray(msg.message) ? msg.message : [];
-    if (segments.length > 0) {
-      for (const seg of segments) {
-        switch (seg.type) {
-          case 'text': {
-            const t = seg.data?.text?.trim();
-            if (t) textParts.push(t);
-            break;
-          }
-          case 'image':
-            if (seg.data?.url) mediaItems.push({ type: 'image', url: seg.data.url });
-            break;
-          case 'file':
-            if (seg.data?.url) mediaItems.push({ type: 'file', url: seg.data.url, name: seg.data?.name });
-            break;
-          case 'record':
-            if (seg.data?.url) mediaItems.push({ type: 'voice', url: seg.data.url });
-            break;
-          case 'video':
-            if (seg.data?.url) mediaItems.push({ type: 'video', url: seg.data.url });
-            break;
-          case 'at':
-            textParts.push(`@${seg.data?.name || seg.data?.qq}`);
-            break;
-          case 'face':
-            textParts.push(`[${faceName(seg.data?.id)}]`);
-            break;
-          case 'mface': {
-            const summary = seg.data?.summary || '[商城表情]';
-            if (currentConfig.media.cacheEnabled && currentConfig.media.parseMface) {
-              const emojiId = seg.data?.emoji_id;
-              if (emojiId) {
-                const url = `https://gxh.vip.qq.com/club/item/parcel/item/${emojiId.slice(0, 2)}/${emojiId}/raw300.gif`;
-                mediaItems.push({ type: 'image', url });
-              }
-            }
-            textParts.push(summary);
-            break;
-          }
-        }
-      }
-    } else if (msg.raw_message && typeof msg.raw_message === 'string') {
-      // Parse CQ codes from raw_message
-      const raw = msg.raw_message;
-      let lastIdx = 0;
-      const cqRegex = /\[CQ:(\w+)((?:,[^,\]]+)*)\]/g;
-      let match;
-      while ((match = cqRegex.exec(raw)) !== null) {
-        const before = raw.slice(lastIdx, match.index).trim();
-        if (before) textParts.push(before);
-        lastIdx = match.index + match[0].length;
-
-        const cqType = match[1];
-        const paramsStr = match[2];
-        const params: Record<string, string> = {};
-        if (paramsStr) {
-          for (const p of paramsStr.slice(1).split(',')) {
-            const eq = p.indexOf('=');
-            if (eq > 0) params[p.slice(0, eq)] = p.slice(eq + 1);
-          }
-        }
-        if (cqType === 'image' && params.url) mediaItems.push({ type: 'image', url: params.url });
-        else if (cqType === 'file' && params.url) mediaItems.push({ type: 'file', url: params.url, name: params.file });
-        else if (cqType === 'record' && params.url) mediaItems.push({ type: 'voice', url: params.url });
-        else if (cqType === 'video' && params.url) mediaItems.push({ type: 'video', url: params.url });
-        else if (cqType === 'at') textParts.push(`@${params.name || params.qq || ''}`);
-      }
-      const tail = raw.slice(lastIdx).trim();
-      if (tail) textParts.push(tail);
-    }
+    const parsed = extractMessage(msg.message, msg.raw_message, groupId);
+    const nestedReplyId = parsed.replyMessageId;
 
     // Build media lines (with cache support)
-    const mediaParts: string[] = [];
-    for (const m of mediaItems) {
-      if (currentConfig.media.cacheEnabled && m.url) {
-        const extMap: Record<string, string> = { image: '.jpg', file: '', voice: '.amr', video: '.mp4' };
-        const ext = m.name ? path.extname(m.name) : (extMap[m.type] || '');
-        const localPath = await downloadMedia(m.url, ext);
-        if (localPath) {
-          mediaParts.push(`[${m.type}: file://${localPath}${m.name ? ` (${m.name})` : ''}]`);
-          continue;
-        }
-      }
-      mediaParts.push(`[${m.type}: ${m.url}${m.name ? ` (${m.name})` : ''}]`);
+    const mediaScope: MediaScope = { groupId: msg.group_id, userId: msg.sender?.user_id ?? msg.user_id, allowed: allowMedia };
+    const mediaParts = await formatMediaLines(ctx, parsed.extractedMedia, mediaScope);
+    for (const ref of parsed.forwards) {
+      const transcript = await resolveForward(ctx, ref, groupId, 1, budget, mediaScope);
+      if (transcript) mediaParts.push(transcript);
     }
 
-    const body = textParts.join(' ');
+    const body = parsed.extractedText;
     const mediaStr = mediaParts.length > 0 ? '\n' + mediaParts.join('\n') : '';
     const content = body + mediaStr;
-    if (!content.trim()) return null;
+    if (!content.trim() && !nestedReplyId) return null;
 
-    return `[引用 ${senderName}(${senderQQ}) 的消息]\n${content}\n[/引用]`;
+    const level = depth > 1 ? ` (第 ${depth} 层)` : '';
+    const block = `[引用 ${senderName}(${senderQQ}) 的消息${level}]\n${content || '(无文本内容)'}\n[/引用]`;
+    return { block, nestedReplyId };
   } catch (e: any) {
     logger?.warn(`[OpenClaw] 解析引用消息失败: ${e.message}`);
     return null;
@@ -458,6 +974,17 @@ function extractContentText(message: any): string {
   return extractTextFromPayload(message);
 }
 
+/** 群的生效 behavior / media 配置（群覆盖优先），私聊时为全局配置 */
+function scopedConfig(groupId?: number | string): ScopedConfig {
+  return resolveGroupConfig(currentConfig, groupId);
+}
+
+/** 当前会话使用的 Markdown 渲染模式，群级配置优先 */
+function resolveReplyFormat(groupId?: number | string): ReplyFormat {
+  const override = groupId != null ? currentConfig.format.groups?.[String(groupId)] : undefined;
+  return override || currentConfig.format.mode;
+}
+
 // ========== Typing Status ==========
 
 async function setTypingStatus(ctx: any, userId: number | string, typing: boolean): Promise<void> {
@@ -479,101 +1006,536 @@ function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
-async function sendReply(ctx: any, messageType: string, groupId: any, userId: any, text: string, opts?: { eventMessageId?: string | number }): Promise<void> {
+// Recently sent bot message ids, used by the reply-to-bot trigger
+const botMessageIds = new Set<string>();
+const BOT_MESSAGE_IDS_MAX = 500;
+
+async function callSendAction(ctx: any, action: string, params: any): Promise<void> {
+  const result = await ctx.actions.call(action, params, ctx.adapterName, ctx.pluginManager?.config);
+  const messageId = result?.data?.message_id ?? result?.message_id;
+  if (messageId != null) {
+    botMessageIds.add(String(messageId));
+    if (botMessageIds.size > BOT_MESSAGE_IDS_MAX) {
+      botMessageIds.delete(botMessageIds.values().next().value!);
+    }
+  }
+}
+
+async function isReplyToBot(ctx: any, messageId: string): Promise<boolean> {
+  if (botMessageIds.has(messageId)) return true;
+  try {
+    const result = await ctx.actions.call(
+      'get_msg',
+      { message_id: messageId },
+      ctx.adapterName,
+      ctx.pluginManager?.config
+    );
+    const msg = result?.data || result;
+    const senderId = msg?.sender?.user_id ?? msg?.user_id;
+    return senderId != null && botUserId != null && String(senderId) === String(botUserId);
+  } catch {
+    return false;
+  }
+}
+
+async function sendReply(ctx: any, messageType: string, groupId: any, userId: any, text: string, opts?: { eventMessageId?: string | number; skipPrefix?: boolean }): Promise<void> {
   const action = messageType === 'group' ? 'send_group_msg' : 'send_private_msg';
   const idKey = messageType === 'group' ? 'group_id' : 'user_id';
   const idVal = String(messageType === 'group' ? groupId : userId);
+  const target = sendTarget(messageType, idVal);
+  const { behavior, media: mediaConfig } = scopedConfig(messageType === 'group' ? groupId : undefined);
 
   // Build prefix segments for group replies (at + quote)
   const prefixSegs: any[] = [];
-  if (messageType === 'group') {
-    if (currentConfig.behavior.replyQuoteMessage && opts?.eventMessageId) {
+  if (messageType === 'group' && !opts?.skipPrefix) {
+    if (behavior.replyQuoteMessage && opts?.eventMessageId) {
       prefixSegs.push({ type: 'reply', data: { id: String(opts.eventMessageId) } });
     }
-    if (currentConfig.behavior.replyAtSender) {
+    if (behavior.replyAtSender) {
       prefixSegs.push({ type: 'at', data: { qq: String(userId) } });
       prefixSegs.push({ type: 'text', data: { text: ' ' } });
     }
   }
 
-  // Extract MEDIA: lines from reply
-  const mediaRegex = /^MEDIA:\s*(.+)$/gm;
-  const mediaFiles: string[] = [];
-  let match;
-  while ((match = mediaRegex.exec(text)) !== null) {
-    const filePath = match[1].trim();
-    if (filePath) mediaFiles.push(filePath);
+  // Extract MEDIA: / MEDIA[kind]: lines from reply
+  const parsedMedia = parseMediaDirectives(text);
+  const directives = parsedMedia.directives;
+  const cleanText = parsedMedia.cleanText;
+
+  // Validate MEDIA directives up front so images can join a forward bundle
+  const mediaItems: Array<{ source: string; kind: MediaKind; file: string; name: string }> = [];
+  for (const directive of directives) {
+    const media = resolveMediaDirective(directive, getMediaPolicy(mediaConfig));
+    if (!media.ok) {
+      logger?.warn(`[OpenClaw] 已拦截 MEDIA 指令 ${directive.source}: ${media.reason}`);
+      reportRejectedMedia(ctx, messageType, groupId, userId, directive.source, media.reason);
+      continue;
+    }
+    mediaItems.push({ source: directive.source, kind: media.kind, file: media.file, name: media.name });
   }
-  let cleanText = text.replace(/^MEDIA:\s*.+$/gm, '').trim();
 
-  // Dedup: if text starts with @userId or [CQ:reply,...] that we're already adding as segments
-  if (messageType === 'group' && prefixSegs.length > 0) {
-    let deduped = false;
-    // Remove leading @mention matching the sender
-    const atPattern = new RegExp(`^@\\S+\\s*\\(${userId}\\)\\s*`);
-    if (currentConfig.behavior.replyAtSender && atPattern.test(cleanText)) {
-      cleanText = cleanText.replace(atPattern, '').trim();
-      deduped = true;
-    }
-    // Remove leading CQ:reply or [引用...] patterns
-    if (currentConfig.behavior.replyQuoteMessage) {
-      const cqReply = /^\[CQ:reply[^\]]*\]\s*/;
-      if (cqReply.test(cleanText)) {
-        cleanText = cleanText.replace(cqReply, '').trim();
-        deduped = true;
-      }
+  // plain 模式的代码块围栏保留到这里才去除，此前 MEDIA 解析与消息段构建都需识别代码块
+  const dropFences = resolveReplyFormat(messageType === 'group' ? groupId : undefined) === 'plain';
+
+  const prefixFormat = behavior.splitPrefixFormat;
+  const prefixReserve = prefixFormat ? measure(prefixFormat) + 8 : 0;
+  const chunks = cleanText ? splitText(cleanText, behavior.splitMaxLength - prefixReserve) : [];
+
+  // Very long replies: pack into one merged-forward message
+  const threshold = behavior.forwardReplyThreshold;
+  let pendingMedia = mediaItems;
+  if (threshold > 0 && chunks.length > threshold) {
+    const images = mediaItems.filter((m) => m.kind === 'image');
+    const sent = await sendAsForward(ctx, messageType, idVal, dropFences ? chunks.map(stripFenceLines) : chunks, images.map((m) => m.file), prefixSegs, behavior.forwardReplyNotice);
+    if (sent) {
+      chunks.length = 0;
+      pendingMedia = mediaItems.filter((m) => m.kind !== 'image');
     }
-    if (deduped) logger?.warn('[OpenClaw] 在消息开头发现重复的 @/引用，已去重');
   }
 
-  // Send text part
-  if (cleanText) {
-    const maxLen = 3000;
-    if (cleanText.length <= maxLen) {
-      const message = [...prefixSegs, { type: 'text', data: { text: cleanText } }];
-      await rateLimitedSend(() => ctx.actions.call(action, { [idKey]: idVal, message }, ctx.adapterName, ctx.pluginManager?.config));
-    } else {
-      const total = Math.ceil(cleanText.length / maxLen);
-      for (let i = 0; i < cleanText.length; i += maxLen) {
-        const idx = Math.floor(i / maxLen) + 1;
-        const prefix = total > 1 ? `[${idx}/${total}]\n` : '';
-        const segs = i === 0 ? [...prefixSegs] : [];
-        segs.push({ type: 'text', data: { text: prefix + cleanText.slice(i, i + maxLen) } });
-        await rateLimitedSend(() => ctx.actions.call(
-          action,
-          { [idKey]: idVal, message: segs },
-          ctx.adapterName,
-          ctx.pluginManager?.config
-        ));
-      }
-    }
+  // Send text part, split on paragraph / line / sentence boundaries
+  const outboundOpts: OutboundOptions = {
+    canMention: (qq) => (messageType === 'group' ? isGroupMember(ctx, groupId, qq) : Promise.resolve(false)),
+    allowAtAll: behavior.allowAtAll,
+    dropFences,
+  };
+  const total = chunks.length;
+  for (let i = 0; i < total; i++) {
+    const prefix = total > 1 && prefixFormat
+      ? prefixFormat.replace('{i}', String(i + 1)).replace('{n}', String(total)) + '\n'
+      : '';
+    const body = await buildOutboundSegments(chunks[i], outboundOpts);
+    const head = i === 0 ? mergeReplyPrefix(prefixSegs, body, userId) : [];
+    const segs = prefix ? [...head, { type: 'text', data: { text: prefix } }, ...body] : [...head, ...body];
+    await rateLimitedSend(ctx, target, () => callSendAction(ctx, action, { [idKey]: idVal, message: segs }));
   }
 
-  // Send media files
-  for (const filePath of mediaFiles) {
+  // Send media files (sandboxed)
+  for (const media of pendingMedia) {
     try {
-      const fileName = path.basename(filePath);
-      const ext = path.extname(fileName).toLowerCase();
-      const imageExts = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
-
-      if (imageExts.includes(ext)) {
-        const message = [{ type: 'image', data: { file: `file://${filePath}` } }];
-        await rateLimitedSend(() => ctx.actions.call(action, { [idKey]: idVal, message }, ctx.adapterName, ctx.pluginManager?.config));
-      } else {
+      if (media.kind === 'file') {
         if (messageType === 'group') {
-          await rateLimitedSend(() => ctx.actions.call('upload_group_file', {
-            group_id: idVal, file: filePath, name: fileName, upload_file: true,
+          await rateLimitedSend(ctx, target, () => ctx.actions.call('upload_group_file', {
+            group_id: idVal, file: media.file, name: media.name, upload_file: true,
           }, ctx.adapterName, ctx.pluginManager?.config));
         } else {
-          await rateLimitedSend(() => ctx.actions.call('upload_private_file', {
-            user_id: idVal, file: filePath, name: fileName, upload_file: true,
+          await rateLimitedSend(ctx, target, () => ctx.actions.call('upload_private_file', {
+            user_id: idVal, file: media.file, name: media.name, upload_file: true,
           }, ctx.adapterName, ctx.pluginManager?.config));
         }
+      } else {
+        const message = [{ type: MEDIA_SEGMENT_TYPES[media.kind], data: { file: toSegmentFile(media.file) } }];
+        await rateLimitedSend(ctx, target, () => callSendAction(ctx, action, { [idKey]: idVal, message }));
       }
     } catch (e: any) {
-      logger?.warn(`[OpenClaw] 发送文件失败 ${filePath}: ${e.message}`);
+      logger?.warn(`[OpenClaw] 发送文件失败 ${media.source}: ${e.message}`);
+    }
+  }
+}
+
+// ========== Outbound Segments ==========
+
+const memberCache = new Map<string, { ok: boolean; time: number }>();
+const MEMBER_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** 仅允许 @ 群内真实存在的成员（结果缓存 10 分钟） */
+async function isGroupMember(ctx: any, groupId: any, qq: string): Promise<boolean> {
+  if (!groupId) return false;
+  const key = `${groupId}:${qq}`;
+  const cached = memberCache.get(key);
+  if (cached && Date.now() - cached.time < MEMBER_CACHE_TTL_MS) return cached.ok;
+  let ok = false;
+  try {
+    const result = await ctx.actions.call(
+      'get_group_member_info',
+      { group_id: String(groupId), user_id: qq },
+      ctx.adapterName,
+      ctx.pluginManager?.config
+    );
+    const info = result?.data || result;
+    ok = info?.user_id != null && String(info.user_id) === qq;
+  } catch {
+    ok = false;
+  }
+  memberCache.set(key, { ok, time: Date.now() });
+  return ok;
+}
+
+/**
+ * 合并自动添加的 @ / 引用前缀与回复正文：正文开头已 @ 发送者时不再重复 @，
+ * 正文开头的引用段以自动添加的引用为准。
+ */
+function mergeReplyPrefix(prefixSegs: any[], body: MessageSegment[], userId: any): any[] {
+  if (prefixSegs.length === 0) return [];
+  const lead = leadingSegment(body);
+  let head = prefixSegs;
+  if (lead?.type === 'reply' && head.some((seg) => seg.type === 'reply')) {
+    body.splice(body.indexOf(lead), 1);
+  } else if (lead?.type === 'at' && String(lead.data.qq) === String(userId)) {
+    head = head.filter((seg) => seg.type === 'reply');
+  }
+  return head;
+}
+
+// ========== Forward Reply ==========
+
+let botNickname: string | null = null;
+
+async function getBotNickname(ctx: any): Promise<string> {
+  if (botNickname) return botNickname;
+  try {
+    const result = await ctx.actions.call('get_login_info', {}, ctx.adapterName, ctx.pluginManager?.config);
+    botNickname = (result?.data || result)?.nickname || null;
+  } catch { /* fall through */ }
+  return botNickname || 'OpenClaw';
+}
+
+/**
+ * 将分段文本与图片打包为一条合并转发（bot 作为发言人），群聊中再发一条简短的 @ 提示。
+ * 转发失败返回 false，由调用方回退到逐条发送。
+ */
+async function sendAsForward(
+  ctx: any,
+  messageType: string,
+  idVal: string,
+  chunks: string[],
+  imageFiles: string[],
+  prefixSegs: any[],
+  noticeText: string
+): Promise<boolean> {
+  const nickname = await getBotNickname(ctx);
+  const speaker = { user_id: String(botUserId ?? ''), nickname };
+  const nodes = [
+    ...chunks.map((chunk) => ({ type: 'node', data: { ...speaker, content: [{ type: 'text', data: { text: chunk } }] } })),
+    ...imageFiles.map((file) => ({ type: 'node', data: { ...speaker, content: [{ type: 'image', data: { file: toSegmentFile(file) } }] } })),
+  ];
+
+  const forwardAction = messageType === 'group' ? 'send_group_forward_msg' : 'send_private_forward_msg';
+  const idKey = messageType === 'group' ? 'group_id' : 'user_id';
+  try {
+    await rateLimitedSend(ctx, sendTarget(messageType, idVal), () => callSendAction(ctx, forwardAction, { [idKey]: idVal, messages: nodes }));
+  } catch (e: any) {
+    logger?.warn(`[OpenClaw] 合并转发发送失败，回退为逐条发送: ${e.message}`);
+    return false;
+  }
+
+  if (messageType === 'group' && prefixSegs.length > 0) {
+    const notice = [...prefixSegs, { type: 'text', data: { text: noticeText } }];
+    try {
+      await rateLimitedSend(ctx, sendTarget('group', idVal), () => callSendAction(ctx, 'send_group_msg', { group_id: idVal, message: notice }));
+    } catch (e: any) {
+      logger?.warn(`[OpenClaw] 合并转发提示发送失败: ${e.message}`);
+    }
+  }
+  return true;
+}
+
+// ========== Media Directive Sandbox ==========
+
+const MEDIA_SEGMENT_TYPES: Record<Exclude<MediaKind, 'file'>, string> = {
+  image: 'image',
+  voice: 'record',
+  video: 'video',
+};
+
+function toSegmentFile(file: string): string {
+  return path.isAbsolute(file) ? `file://${file}` : file;
+}
+
+function getMediaPolicy(media: ScopedConfig['media']): MediaPolicy {
+  return {
+    allowedRoots: media.sendAllowedRoots,
+    maxImageMB: media.sendMaxImageMB,
+    maxFileMB: media.sendMaxFileMB,
+    allowRemote: media.sendAllowRemote,
+  };
+}
+
+/** 将被拦截的 MEDIA 指令私聊通知管理员 */
+// 同一会话目标的 MEDIA 拦截通知最短间隔，避免一条回复中的大量非法指令刷屏管理员
+const REJECTED_MEDIA_NOTICE_COOLDOWN_MS = 10 * 60 * 1000;
+const rejectedMediaNoticeTimes = new Map<string, number>();
+
+/** 通知管理员 MEDIA 指令被拦截；不等待发送完成，避免拖慢正常回复 */
+function reportRejectedMedia(
+  ctx: any,
+  messageType: string,
+  groupId: any,
+  userId: any,
+  source: string,
+  reason: string
+): void {
+  const target = sendTarget(messageType, messageType === 'group' ? groupId : userId);
+  if (!takeNoticeSlot(rejectedMediaNoticeTimes, target, REJECTED_MEDIA_NOTICE_COOLDOWN_MS)) return;
+  const where = messageType === 'group' ? `群 ${groupId}（用户 ${userId}）` : `私聊 ${userId}`;
+  const notice = `⚠️ 已拦截 Agent 的 MEDIA 指令\n来源: ${where}\n内容: ${source.slice(0, 200)}\n原因: ${reason}`;
+  for (const admin of notifyRecipients(currentConfig.permissions)) {
+    rateLimitedSend(ctx, sendTarget('private', admin), () => ctx.actions.call('send_private_msg', {
+      user_id: String(admin), message: [{ type: 'text', data: { text: notice } }],
+    }, ctx.adapterName, ctx.pluginManager?.config))
+      .catch((e: any) => logger?.warn(`[OpenClaw] 通知管理员 ${admin} 失败: ${e.message}`));
+  }
+}
+
+// ========== Group Context ==========
+
+const groupContextBuffer = new GroupContextBuffer();
+
+function isGroupContextEnabled(groupId: number | string | undefined): boolean {
+  if (groupId == null) return false;
+  return currentConfig.groupContext.groups.some((id) => Number(id) === Number(groupId));
+}
+
+/** 记录未触发 bot 的群消息，仅限已开启群上下文的群 */
+function recordGroupContext(groupId: number | string, userId: number | string, nickname: string, text: string): void {
+  if (!isGroupContextEnabled(groupId)) return;
+  groupContextBuffer.record(groupId, { userId, nickname, text, time: Date.now() }, currentConfig.groupContext);
+}
+
+/** 请求发往 Agent 时附带群内近期消息，附带后即从缓冲中移除，后续触发不再重复发送 */
+function attachGroupContext(meta: AgentRequestMeta): void {
+  if (meta.messageType !== 'group' || !isGroupContextEnabled(meta.groupId)) return;
+  meta.groupContext = groupContextBuffer.take(meta.groupId!, currentConfig.groupContext) || undefined;
+}
+
+// ========== Agent Dispatch ==========
+
+interface AgentRequestMeta {
+  ctx: any;
+  messageType: string;
+  userId: number | string;
+  nickname: string;
+  groupId?: number | string;
+  sessionBase: string;
+  eventMessageId?: string | number;
+  /** 触发时群内近期的未触发消息摘要 */
+  groupContext?: string;
+  /** 发送者角色不受配额限制 */
+  quotaExempt: boolean;
+  /** 路由到的 Agent，空字符串为 Gateway 默认 Agent */
+  agent: string;
+  /** 收到消息时的 sessionKey；/new 等轮换在排队或防抖期间发生时，之前的消息仍进入原会话 */
+  sessionKey: string;
+}
+
+/** 同一会话不同 Agent 的运行互不排队、互不合并 */
+function runKey(meta: AgentRequestMeta): string {
+  return agentSessionKey(meta.agent, meta.sessionBase);
+}
+
+// 同一会话同时只允许一个运行，后续消息排队或合并
+const runScheduler = new RunScheduler<AgentRequestMeta>({
+  maxConcurrent: () => currentConfig.behavior.maxConcurrent,
+  mode: (meta) => scopedConfig(meta.groupId).behavior.sessionQueueMode,
+  // Linked sessions receive messages from several chats; only merge messages that reply to the same chat (and epoch)
+  canMerge: (pending, incoming) => pending.sessionKey === incoming.sessionKey &&
+    sendTarget(pending.messageType, pending.groupId ?? pending.userId) === sendTarget(incoming.messageType, incoming.groupId ?? incoming.userId),
+  run: (input, meta) => dispatchToAgent(meta, input),
+  onQueued: (meta, ahead) => {
+    logger?.info(`[OpenClaw] 会话 ${meta.sessionBase} 排队中，前面还有 ${ahead} 条`);
+    const notice = scopedConfig(meta.groupId).behavior.queueNotice;
+    if (!notice) return;
+    sendReply(meta.ctx, meta.messageType, meta.groupId, meta.userId, notice.replace(/\{n\}/g, String(ahead)), {
+      eventMessageId: meta.eventMessageId,
+    }).catch((e: any) => logger?.warn(`[OpenClaw] 排队提示发送失败: ${e.message}`));
+  },
+  onError: (e: any) => {
+    logger?.error(`[OpenClaw] 未捕获异常: ${e.message}\n${e.stack}`);
+  },
+});
+
+const debouncer = new MessageDebouncer<AgentRequestMeta>(
+  (meta) => scopedConfig(meta.groupId).behavior.debounceMs,
+  (result, meta) => {
+    recordQuota(meta.userId, meta.messageType === 'group' ? meta.groupId : undefined, meta.quotaExempt);
+    attachGroupContext(meta);
+    runScheduler.submit(runKey(meta), result, meta);
+  }
+);
+
+// 等待回复的空闲超时：超过该时长没有任何 chat 事件即放弃本次运行
+const REPLY_IDLE_TIMEOUT_MS = 180000;
+const REPLY_TIMEOUT_NOTICE = '⏱ 回复超时，以上内容可能不完整';
+
+async function dispatchToAgent(meta: AgentRequestMeta, input: DebounceResult): Promise<void> {
+  const { ctx, messageType, userId, nickname, groupId, sessionBase, eventMessageId, groupContext, agent, sessionKey } = meta;
+  const { text, media: extractedMedia } = input;
+  if (!text && extractedMedia.length === 0) return;
+
+  // Resolve group name for group messages
+  let groupName = '';
+  if (messageType === 'group' && groupId) {
+    try {
+      const info = await ctx.actions.call(
+        'get_group_info',
+        { group_id: String(groupId) },
+        ctx.adapterName,
+        ctx.pluginManager?.config
+      );
+      groupName = info?.data?.group_name || info?.group_name || '';
+    } catch {
+      groupName = '';
+    }
+  }
+
+  // Build message with sender identity context
+  const identityParts = [`[发送者: ${nickname} (QQ: ${userId})`];
+  if (messageType === 'group' && groupId) identityParts.push(`群: ${groupName || groupId} (${groupId})`);
+  identityParts.push(messageType === 'private' ? '私聊]' : '群聊]');
+  const identityHeader = identityParts.join(' | ');
+
+  let openclawMessage = groupContext ? `${groupContext}\n` : '';
+  openclawMessage += `${identityHeader}\n`;
+  openclawMessage += text || '';
+  if (extractedMedia.length > 0) {
+    const mediaLines = await formatMediaLines(ctx, extractedMedia, {
+      groupId: messageType === 'group' ? groupId : undefined,
+      userId,
+    });
+    openclawMessage += '\n\n' + mediaLines.join('\n');
+  }
+
+  logger.info(
+    `[OpenClaw] ${messageType === 'private' ? '私聊' : `群${groupId}`} ${nickname}(${userId}): ${openclawMessage.slice(0, 80)}`
+  );
+
+  if (messageType === 'private') setTypingStatus(ctx, userId, true);
+
+  const replyFormat = resolveReplyFormat(messageType === 'group' ? groupId : undefined);
+
+  // Send via Gateway RPC + event listener (non-streaming)
+  sessionStore.touch(sessionBase);
+  const runId = randomUUID();
+
+  let outgoing: string | null = null;
+  let streamed = false;
+  try {
+    const gw = await getGateway();
+
+    // Streaming mode: send each completed paragraph / code block as soon as it arrives
+    let streamChain: Promise<void> = Promise.resolve();
+    const behavior = scopedConfig(messageType === 'group' ? groupId : undefined).behavior;
+    const stream = behavior.streamReply
+      ? new StreamBuffer({
+        minChars: behavior.streamMinChars,
+        flushMs: behavior.streamFlushMs,
+        onChunk: (chunk) => {
+          const skipPrefix = stream!.chunkCount > 1;
+          streamChain = streamChain
+            .then(() => sendReply(ctx, messageType, groupId, userId, renderMarkdown(chunk, replyFormat), { eventMessageId, skipPrefix }))
+            .catch((e: any) => logger.warn(`[OpenClaw] 流式片段发送失败: ${e.message}`));
+        },
+      })
+      : null;
+
+    // Listen for chat events of this run only — final contains full text
+    let finalUsage: ChatUsage | null = null;
+    let unregister: () => void = () => {};
+    const replyPromise = new Promise<string | null>((resolve) => {
+      // 空闲超时：每个 delta 都会顺延，持续输出的长回复不会被中途截断
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const armTimeout = () => {
+        clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          const partial = stream?.drain() ?? '';
+          cleanup();
+          logger.warn(`[OpenClaw] 等待回复超时: session=${sessionKey}`);
+          // 流式回复已发出一部分：补发缓冲中的剩余文本并提示内容不完整
+          const hasPartial = partial || (stream?.chunkCount ?? 0) > 0;
+          resolve(hasPartial ? [partial, REPLY_TIMEOUT_NOTICE].filter(Boolean).join('\n\n') : null);
+        }, REPLY_IDLE_TIMEOUT_MS);
+      };
+      armTimeout();
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        stream?.dispose();
+        unregister();
+      };
+
+      unregister = gw.registerChatWaiter(runId, sessionKey, (payload: ChatEventPayload) => {
+        if (payload.state === 'delta') {
+          armTimeout();
+          stream?.push(extractContentText(payload.message));
+          return;
+        }
+        logger.info(`[OpenClaw] chat event: state=${payload.state} session=${payload.sessionKey} run=${payload.runId?.slice(0, 8)}`);
+
+        if (payload.state === 'final') {
+          finalUsage = parseUsage(payload);
+          let text = extractContentText(payload.message);
+          if (stream) text = stream.finish(text);
+          cleanup();
+          resolve(text?.trim() || null);
+        }
+
+        if (payload.state === 'aborted') {
+          cleanup();
+          resolve('⏹ 已中止');
+        }
+
+        if (payload.state === 'error') {
+          cleanup();
+          resolve(`❌ ${payload.errorMessage || '处理出错'}`);
+        }
+      });
+    });
+
+    // Send message
+    let sendResult: any;
+    try {
+      sendResult = await gw.request('chat.send', {
+        sessionKey,
+        message: openclawMessage,
+        idempotencyKey: runId,
+        ...(agent ? { agentId: agent } : {}),
+      });
+    } catch (e) {
+      unregister();
+      throw e;
+    }
+
+    logger.info(`[OpenClaw] chat.send 已接受: runId=${sendResult?.runId}`);
+    if (sendResult?.runId) gw.rekeyChatWaiter(runId, sendResult.runId);
+
+    // Wait for final event
+    const reply = await replyPromise;
+    if (finalUsage) recordUsage(meta, sessionKey, finalUsage);
+    await streamChain;
+    streamed = (stream?.chunkCount ?? 0) > 0;
+    if (reply) outgoing = renderMarkdown(reply, replyFormat);
+  } catch (e: any) {
+    logger.error(`[OpenClaw] Gateway 请求失败: ${e.message}`);
+    if (gatewayClient) {
+      gatewayClient.disconnect();
+      gatewayClient = null;
+    }
+    try {
+      const escapedMessage = openclawMessage.replace(/'/g, "'\\''");
+      const cliPath = currentConfig.openclaw.cliPath;
+      const agentArg = agent ? ` --agent '${agent}'` : '';
+      const { stdout } = await execAsync(
+        `OPENCLAW_TOKEN='${currentConfig.openclaw.token}' ${cliPath} agent${agentArg} --session-id '${sessionKey}' --message '${escapedMessage}' 2>&1`,
+        { timeout: 180000, maxBuffer: 1024 * 1024 }
+      );
+      if (stdout.trim()) outgoing = renderMarkdown(stdout.trim(), replyFormat);
+    } catch (e2: any) {
+      outgoing = `处理出错: ${(e as Error).message?.slice(0, 100)}`;
     }
   }
+
+  // Delivery stays outside the gateway try: a muted group or failed upload must not
+  // disconnect the gateway or rerun the prompt through the CLI
+  if (!outgoing) {
+    if (!streamed) logger.info('[OpenClaw] 无回复内容');
+    return;
+  }
+  try {
+    await sendReply(ctx, messageType, groupId, userId, outgoing, { eventMessageId, skipPrefix: streamed });
+  } catch (e: any) {
+    // 永久失败已由发送队列记录并通知管理员
+    logger.warn(`[OpenClaw] 回复发送失败: ${e.message}`);
+  }
 }
 
 // ========== Lifecycle ==========
@@ -589,13 +1551,39 @@ export const plugin_init = async (ctx: any): Promise<void> => {
   try {
     if (configPath && fs.existsSync(configPath)) {
       const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const migrated = migrateLegacyPermissions(saved);
       currentConfig = deepMerge(currentConfig, saved);
       logger.info('[OpenClaw] 已加载保存的配置');
+      if (migrated) {
+        fs.writeFileSync(configPath, JSON.stringify(currentConfig, null, 2), 'utf-8');
+        logger.info('[OpenClaw] 已将旧版管理员 / 白名单 / 黑名单配置迁移为角色权限');
+      }
     }
   } catch (e: any) {
     logger.warn('[OpenClaw] 加载配置失败: ' + e.message);
   }
 
+  try {
+    quotaTracker.load(getDataPath('quota.json'));
+  } catch (e: any) {
+    logger.warn('[OpenClaw] 加载配额计数失败: ' + e.message);
+  }
+  try {
+    usageStore.load(getDataPath('usage.json'));
+  } catch (e: any) {
+    logger.warn('[OpenClaw] 加载用量统计失败: ' + e.message);
+  }
+  try {
+    sessionStore.load(getDataPath('sessions.json'));
+  } catch (e: any) {
+    logger.warn('[OpenClaw] 加载会话记录失败: ' + e.message);
+  }
+  try {
+    agentRouter.load(getDataPath('agents.json'));
+  } catch (e: any) {
+    logger.warn('[OpenClaw] 加载 Agent 选择失败: ' + e.message);
+  }
+
   // Pre-connect gateway
   try {
     await getGateway();
@@ -608,6 +1596,8 @@ export const plugin_init = async (ctx: any): Promise<void> => {
   logger.info('[OpenClaw] 模式: 私聊全透传 + 群聊@触发 + 命令透传');
   logger.info('[OpenClaw] QQ Channel 插件初始化完成');
   startCacheCleanup();
+  if (banSweepTimer) clearInterval(banSweepTimer);
+  banSweepTimer = setInterval(() => sweepExpiredBans(), BAN_SWEEP_INTERVAL_MS);
 };
 
 export const plugin_onmessage = async (ctx: any, event: any): Promise<void> => {
@@ -626,205 +1616,169 @@ export const plugin_onmessage = async (ctx: any, event: any): Promise<void> => {
       logger.info(`[OpenClaw] Bot QQ: ${botUserId}`);
     }
 
-    // User blacklist (takes priority over whitelist)
-    const userBlacklist = currentConfig.behavior.userBlacklist;
-    if (userBlacklist.length > 0 && userBlacklist.some((id) => Number(id) === Number(userId))) return;
-
-    // User whitelist (bypass in whitelisted groups if configured)
-    const userWhitelist = currentConfig.behavior.userWhitelist;
-    if (userWhitelist.length > 0) {
-      const inWhitelistedGroup = messageType === 'group' && groupId
-        && currentConfig.behavior.groupBypassUserWhitelist
-        && currentConfig.behavior.groupWhitelist.length > 0
-        && currentConfig.behavior.groupWhitelist.some((id) => Number(id) === Number(groupId));
-      if (!inWhitelistedGroup && !userWhitelist.some((id) => Number(id) === Number(userId))) return;
-    }
+    sweepExpiredBans();
 
     let shouldHandle = false;
+    let groupEnabled = true;
 
     if (messageType === 'private') {
       if (!currentConfig.behavior.privateChat) return;
       shouldHandle = true;
     } else if (messageType === 'group') {
       if (!groupId) return;
-      const gWhitelist = currentConfig.behavior.groupWhitelist;
-      if (gWhitelist.length > 0 && !gWhitelist.some((id) => Number(id) === Number(groupId))) return;
-      if (currentConfig.behavior.groupAtOnly) {
-        const isAtBot = event.message?.some(
-          (seg: any) => seg.type === 'at' && String(seg.data?.qq) === String(botUserId || event.self_id)
-        );
-        if (!isAtBot) return;
-      }
+      groupEnabled = isGroupEnabled(groupId);
+      // Disabled groups still accept /oc from global admins so they can be re-enabled
+      if (!groupEnabled && !isGlobalAdmin(userId)) return;
       shouldHandle = true;
     }
 
     if (!shouldHandle) return;
 
-    const { extractedText, extractedMedia, replyMessageId } = extractMessage(event.message || []);
-    const text = extractedText;
-    if (!text && extractedMedia.length === 0 && !replyMessageId) return;
+    // Role: explicit lists, group owner / admin from sender.role, then default role
+    const role = resolveRole(currentConfig.permissions, {
+      userId,
+      groupId: messageType === 'group' ? groupId : undefined,
+      senderRole: messageType === 'group' ? event.sender?.role : undefined,
+    });
+    if (role === 'banned') return;
+    const grants = resolveGrants(currentConfig.permissions, role, messageType === 'group' ? groupId : undefined);
+    const quotaExempt = hasFeature(grants, 'quotaExempt');
+
+    const scopeGroupId = messageType === 'group' ? groupId : undefined;
+    const { behavior } = scopedConfig(scopeGroupId);
+    const { extractedText, extractedMedia, replyMessageId, forwards } = extractMessage(event.message, event.raw_message, scopeGroupId);
+    let text = extractedText;
+
+    // Group trigger rules (only when groupAtOnly is on; otherwise every message triggers)
+    if (messageType === 'group' && behavior.groupAtOnly) {
+      const segments = normalizeSegments(event.message, event.raw_message);
+      const isAtBot = segments.some(
+        (seg) => seg.type === 'at' && String(seg.data?.qq) === String(botUserId || event.self_id)
+      );
+      const match = await matchTrigger(resolveTriggerRules(currentConfig.triggers, groupId), {
+        text,
+        isAtBot,
+        isReplyToBot: () => (replyMessageId ? isReplyToBot(ctx, replyMessageId) : Promise.resolve(false)),
+      });
+      if (!match) {
+        if (groupEnabled) recordGroupContext(groupId, userId, nickname, text);
+        return;
+      }
+      if (match.kind !== 'at') logger.info(`[OpenClaw] 触发规则命中: ${match.kind}`);
+      text = match.text;
+    }
+
+    // Agent prefix such as "#coder" routes this message only and is stripped
+    const prefixRoute = matchAgentPrefix(currentConfig.agents, text);
+    if (prefixRoute) text = prefixRoute.text;
+
+    if (!text && extractedMedia.length === 0 && !replyMessageId && forwards.length === 0) return;
+
+    // Forwards in quoted messages and in this message draw from one budget
+    const forwardBudget = createForwardBudget(scopeGroupId);
+    // Without the media feature, media inside quotes and forwards is dropped like directly sent media
+    const allowMedia = hasFeature(grants, 'media');
 
     // Resolve quoted/replied message
     let replyContext = '';
-    if (replyMessageId && currentConfig.behavior.resolveReply) {
-      const resolved = await resolveReply(ctx, replyMessageId);
+    if (replyMessageId && behavior.resolveReply) {
+      const resolved = await resolveReply(ctx, replyMessageId, scopeGroupId, forwardBudget, allowMedia);
       if (resolved) replyContext = resolved;
     }
 
-    const sessionBase = getSessionBase(messageType, userId, groupId);
+    // Linked contexts share one session; batching stays per origin so each reply goes back where it came from
+    const originBase = getSessionBase(messageType, userId, groupId);
+    const sessionBase = getLinkedSessionBase(messageType, userId, groupId);
+    const route: AgentRoute = prefixRoute
+      ? { agent: prefixRoute.agent, source: 'prefix' }
+      : agentRouter.resolve(currentConfig.agents, { userId, groupId: scopeGroupId, sessionBase });
+    const batchKey = `${agentSessionKey(route.agent, originBase)}:${userId}`;
 
-    // Command permission check: if commandAdminOnly is on, non-admin /commands are ignored
-    if (text?.startsWith('/') && currentConfig.behavior.commandAdminOnly) {
-      const admins = currentConfig.behavior.adminQQ;
-      if (admins.length > 0 && !admins.some((id) => Number(id) === Number(userId))) {
-        logger.info(`[OpenClaw] 非管理员指令已忽略: ${nickname}(${userId})`);
-        return;
-      }
+    const spaceIdx = text?.indexOf(' ') ?? -1;
+    const cmd = text?.startsWith('/') ? (spaceIdx > 0 ? text.slice(0, spaceIdx) : text).toLowerCase() : '';
+    const args = cmd && spaceIdx > 0 ? text.slice(spaceIdx + 1).trim() : '';
+
+    if (!groupEnabled && cmd !== '/oc') return;
+
+    // Command permission check: commands not granted to the sender's role are ignored
+    if (cmd && !canUseCommand(grants, cmd)) {
+      logger.info(`[OpenClaw] 无权限指令已忽略: ${cmd} from ${nickname}(${userId}) 角色=${role}`);
+      return;
     }
 
-    // Local commands
+    // Media upload permission
+    if (extractedMedia.length > 0 && !allowMedia) {
+      logger.info(`[OpenClaw] 角色 ${role} 无发送媒体权限，已忽略 ${extractedMedia.length} 个文件`);
+      extractedMedia.length = 0;
+      if (!text && !replyMessageId && forwards.length === 0) return;
+    }
+
+    // Idle expiry happens before /whoami or the agent read the key, so both see the key actually used
+    expireIdleSession(messageType, sessionBase);
+
+    // Commands flush the sender's pending debounce batch first, then run immediately
     if (text?.startsWith('/')) {
-      const spaceIdx = text.indexOf(' ');
-      const cmd = (spaceIdx > 0 ? text.slice(0, spaceIdx) : text).toLowerCase();
-      const args = spaceIdx > 0 ? text.slice(spaceIdx + 1).trim() : '';
-
-      if (LOCAL_COMMANDS[cmd]) {
-        logger.info(`[OpenClaw] 本地命令: ${cmd} from ${nickname}(${userId})`);
-        const result = LOCAL_COMMANDS[cmd](sessionBase, userId, nickname, messageType, groupId, args);
-        if (result) {
-          await sendReply(ctx, messageType, groupId, userId, result, { eventMessageId });
-          return;
-        }
-      }
+      debouncer.flush(batchKey);
     }
 
-    // Resolve group name for group messages
-    let groupName = '';
-    if (messageType === 'group' && groupId) {
-      try {
-        const info = await ctx.actions.call(
-          'get_group_info',
-          { group_id: String(groupId) },
-          ctx.adapterName,
-          ctx.pluginManager?.config
-        );
-        groupName = info?.data?.group_name || info?.group_name || '';
-      } catch {
-        groupName = '';
+    // Local commands
+    if (cmd && LOCAL_COMMANDS[cmd]) {
+      logger.info(`[OpenClaw] 本地命令: ${cmd} from ${nickname}(${userId})`);
+      const result = await LOCAL_COMMANDS[cmd]({ ctx, sessionBase, userId, nickname, messageType, groupId, args, grants, agent: route });
+      if (result) {
+        await sendReply(ctx, messageType, groupId, userId, result, { eventMessageId });
+        return;
       }
     }
 
-    // Build message with sender identity context
-    const identityParts = [`[发送者: ${nickname} (QQ: ${userId})`];
-    if (messageType === 'group' && groupId) identityParts.push(`群: ${groupName || groupId} (${groupId})`);
-    identityParts.push(messageType === 'private' ? '私聊]' : '群聊]');
-    const identityHeader = identityParts.join(' | ');
-
-    let openclawMessage = `${identityHeader}\n`;
-    if (replyContext) openclawMessage += replyContext + '\n';
-    openclawMessage += text || '';
-    if (extractedMedia.length > 0) {
-      const mediaLines: string[] = [];
-      for (const m of extractedMedia) {
-        if (currentConfig.media.cacheEnabled && m.url) {
-          const extMap: Record<string, string> = { image: '.jpg', file: '', voice: '.amr', video: '.mp4' };
-          const ext = m.name ? path.extname(m.name) : (extMap[m.type] || '');
-          const localPath = await downloadMedia(m.url, ext);
-          if (localPath) {
-            mediaLines.push(`[${m.type}: file://${localPath}${m.name ? ` (${m.name})` : ''}]`);
-            continue;
-          }
+    const meta: AgentRequestMeta = {
+      ctx, messageType, userId, nickname, groupId, sessionBase, eventMessageId, quotaExempt, agent: route.agent,
+      sessionKey: getSessionKey(sessionBase, route.agent),
+    };
+    // Expand merged-forward chat logs
+    const forwardParts: string[] = [];
+    for (const ref of forwards) {
+      const transcript = await resolveForward(ctx, ref, scopeGroupId, 1, forwardBudget, { groupId: scopeGroupId, userId, allowed: allowMedia });
+      if (transcript) forwardParts.push(transcript);
+    }
+
+    const body = [replyContext, ...forwardParts, text].filter(Boolean).join('\n');
+
+    // Bare gateway commands (/stop, /new) are control messages; with a prompt, quote, forward or media they run the agent
+    const isCommand = !!text?.startsWith('/');
+    const runsAgent = !isCommand || body !== text || extractedMedia.length > 0 || (!!args && !MODEL_COMMANDS.includes(cmd));
+
+    // Usage quota and daily token budget: checked per message, counted once per dispatched batch
+    const limitGroupId = messageType === 'group' ? groupId : undefined;
+    if (runsAgent) {
+      const exceeded = checkQuota(userId, limitGroupId, quotaExempt);
+      const limitNotice = exceeded ? formatQuotaExceeded(exceeded) : checkTokenBudget(userId, limitGroupId, quotaExempt);
+      if (limitNotice) {
+        logger.info(`[OpenClaw] 使用限制: ${nickname}(${userId}) ${limitNotice}`);
+        if (takeNoticeSlot(quotaNoticeTimes, String(userId), QUOTA_NOTICE_COOLDOWN_MS)) {
+          await sendReply(ctx, messageType, groupId, userId, limitNotice, { eventMessageId });
         }
-        mediaLines.push(`[${m.type}: ${m.url}${m.name ? ` (${m.name})` : ''}]`);
+        return;
       }
-      openclawMessage += '\n\n' + mediaLines.join('\n');
     }
 
-    logger.info(
-      `[OpenClaw] ${messageType === 'private' ? '私聊' : `群${groupId}`} ${nickname}(${userId}): ${openclawMessage.slice(0, 80)}`
-    );
-
-    if (messageType === 'private') setTypingStatus(ctx, userId, true);
-
-    // Send via Gateway RPC + event listener (non-streaming)
-    const sessionKey = getSessionKey(sessionBase);
-    const runId = randomUUID();
-
-    try {
-      const gw = await getGateway();
-
-      // Listen for chat events — only use final (contains full text)
-      const replyPromise = new Promise<string | null>((resolve) => {
-        const timeout = setTimeout(() => {
-          cleanup();
-          resolve(null);
-        }, 180000);
-
-        const cleanup = () => {
-          clearTimeout(timeout);
-          gw.eventHandlers.delete('chat');
-        };
-
-        gw.eventHandlers.set('chat', (payload: any) => {
-          if (!payload) return;
-          logger.info(`[OpenClaw] chat event: state=${payload.state} session=${payload.sessionKey} run=${payload.runId?.slice(0, 8)}`);
-          if (payload.sessionKey !== sessionKey && !payload.sessionKey?.endsWith(':' + sessionKey)) return;
-
-          if (payload.state === 'final') {
-            const text = extractContentText(payload.message);
-            cleanup();
-            resolve(text?.trim() || null);
-          }
-
-          if (payload.state === 'aborted') {
-            cleanup();
-            resolve('⏹ 已中止');
-          }
-
-          if (payload.state === 'error') {
-            cleanup();
-            resolve(`❌ ${payload.errorMessage || '处理出错'}`);
-          }
-        });
-      });
-
-      // Send message
-      const sendResult = await gw.request('chat.send', {
-        sessionKey,
-        message: openclawMessage,
-        idempotencyKey: runId,
-      });
-
-      logger.info(`[OpenClaw] chat.send 已接受: runId=${sendResult?.runId}`);
-
-      // Wait for final event
-      const reply = await replyPromise;
-
-      if (reply) {
-        await sendReply(ctx, messageType, groupId, userId, reply, { eventMessageId });
-      } else {
-        logger.info('[OpenClaw] 无回复内容');
-      }
-    } catch (e: any) {
-      logger.error(`[OpenClaw] 发送失败: ${e.message}`);
-      if (gatewayClient) {
-        gatewayClient.disconnect();
-        gatewayClient = null;
+    // Gateway commands are never buffered or queued — /stop must reach a busy session
+    if (isCommand) {
+      if (SESSION_RESET_COMMANDS.includes(cmd)) {
+        const epoch = sessionStore.rotate(sessionBase, currentConfig.sessions.maxHistory);
+        meta.sessionKey = getSessionKey(sessionBase, route.agent);
+        logger.info(`[OpenClaw] ${nickname}(${userId}) ${cmd}: 会话 ${sessionBase} 开始新会话 #${epoch}`);
       }
-      try {
-        const escapedMessage = openclawMessage.replace(/'/g, "'\\''");
-        const cliPath = currentConfig.openclaw.cliPath;
-        const { stdout } = await execAsync(
-          `OPENCLAW_TOKEN='${currentConfig.openclaw.token}' ${cliPath} agent --session-id '${sessionKey}' --message '${escapedMessage}' 2>&1`,
-          { timeout: 180000, maxBuffer: 1024 * 1024 }
-        );
-        if (stdout.trim()) {
-          await sendReply(ctx, messageType, groupId, userId, stdout.trim(), { eventMessageId });
-        }
-      } catch (e2: any) {
-        await sendReply(ctx, messageType, groupId, userId, `处理出错: ${(e as Error).message?.slice(0, 100)}`, { eventMessageId });
+      if (runsAgent) {
+        recordQuota(userId, limitGroupId, quotaExempt);
+        attachGroupContext(meta);
       }
+      await dispatchToAgent(meta, { text: body, media: extractedMedia });
+      return;
     }
+
+    // Debounce: merge consecutive messages from the same sender within the window
+    debouncer.push(batchKey, body, extractedMedia, meta);
   } catch (outerErr: any) {
     logger?.error(`[OpenClaw] 未捕获异常: ${outerErr.message}\n${outerErr.stack}`);
   }
@@ -832,6 +1786,14 @@ export const plugin_onmessage = async (ctx: any, event: any): Promise<void> => {
 
 export const plugin_cleanup = async (): Promise<void> => {
   stopCacheCleanup();
+  if (banSweepTimer) { clearInterval(banSweepTimer); banSweepTimer = null; }
+  debouncer.clear();
+  runScheduler.clear();
+  sendQueue.clear();
+  try { quotaTracker.flush(); } catch (e: any) { logger?.warn('[OpenClaw] 保存配额计数失败: ' + e.message); }
+  try { usageStore.flush(); } catch (e: any) { logger?.warn('[OpenClaw] 保存用量统计失败: ' + e.message); }
+  try { sessionStore.flush(); } catch (e: any) { logger?.warn('[OpenClaw] 保存会话记录失败: ' + e.message); }
+  groupContextBuffer.clear();
   if (gatewayClient) {
     gatewayClient.disconnect();
     gatewayClient = null;
@@ -846,26 +1808,86 @@ export const plugin_get_config = async () => {
     'openclaw.token': currentConfig.openclaw.token,
     'openclaw.gatewayUrl': currentConfig.openclaw.gatewayUrl,
     'openclaw.cliPath': currentConfig.openclaw.cliPath,
+    'sessions.privateIdleMinutes': currentConfig.sessions.privateIdleMinutes,
+    'sessions.groupIdleMinutes': currentConfig.sessions.groupIdleMinutes,
+    'sessions.maxHistory': currentConfig.sessions.maxHistory,
+    'agents.default': currentConfig.agents.default,
+    'agents.available': currentConfig.agents.available.join(', '),
     'behavior.privateChat': currentConfig.behavior.privateChat,
     'behavior.groupAtOnly': currentConfig.behavior.groupAtOnly,
-    'behavior.adminQQ': currentConfig.behavior.adminQQ.join(', '),
-    'behavior.commandAdminOnly': currentConfig.behavior.commandAdminOnly,
-    'behavior.userWhitelist': currentConfig.behavior.userWhitelist.join(', '),
     'behavior.groupWhitelist': currentConfig.behavior.groupWhitelist.join(', '),
-    'behavior.groupBypassUserWhitelist': currentConfig.behavior.groupBypassUserWhitelist,
-    'behavior.userBlacklist': currentConfig.behavior.userBlacklist.join(', '),
+    'behavior.groupBlacklist': currentConfig.behavior.groupBlacklist.join(', '),
     'behavior.debounceMs': currentConfig.behavior.debounceMs,
     'behavior.resolveReply': currentConfig.behavior.resolveReply,
     'behavior.replyMaxDepth': currentConfig.behavior.replyMaxDepth,
+    'behavior.resolveForward': currentConfig.behavior.resolveForward,
+    'behavior.forwardMaxItems': currentConfig.behavior.forwardMaxItems,
+    'behavior.forwardMaxChars': currentConfig.behavior.forwardMaxChars,
+    'behavior.forwardMaxDepth': currentConfig.behavior.forwardMaxDepth,
     'behavior.groupSessionMode': currentConfig.behavior.groupSessionMode,
     'behavior.replyAtSender': currentConfig.behavior.replyAtSender,
     'behavior.replyQuoteMessage': currentConfig.behavior.replyQuoteMessage,
+    'behavior.allowAtAll': currentConfig.behavior.allowAtAll,
     'behavior.sendIntervalMs': currentConfig.behavior.sendIntervalMs,
+    'behavior.sendGlobalIntervalMs': currentConfig.behavior.sendGlobalIntervalMs,
+    'behavior.sendMaxRetries': currentConfig.behavior.sendMaxRetries,
+    'behavior.sendRetryBaseMs': currentConfig.behavior.sendRetryBaseMs,
+    'behavior.maxConcurrent': currentConfig.behavior.maxConcurrent,
+    'behavior.sessionQueueMode': currentConfig.behavior.sessionQueueMode,
+    'behavior.queueNotice': currentConfig.behavior.queueNotice,
+    'behavior.splitMaxLength': currentConfig.behavior.splitMaxLength,
+    'behavior.splitPrefixFormat': currentConfig.behavior.splitPrefixFormat,
+    'behavior.forwardReplyThreshold': currentConfig.behavior.forwardReplyThreshold,
+    'behavior.forwardReplyNotice': currentConfig.behavior.forwardReplyNotice,
+    'behavior.streamReply': currentConfig.behavior.streamReply,
+    'behavior.streamMinChars': currentConfig.behavior.streamMinChars,
+    'behavior.streamFlushMs': currentConfig.behavior.streamFlushMs,
+    'triggers.at': currentConfig.triggers.at,
+    'triggers.nicknames': currentConfig.triggers.nicknames.join(', '),
+    'triggers.keywords': currentConfig.triggers.keywords.join(', '),
+    'triggers.replyToBot': currentConfig.triggers.replyToBot,
+    'format.mode': currentConfig.format.mode,
+    'groupContext.groups': currentConfig.groupContext.groups.join(', '),
+    'groupContext.maxMessages': currentConfig.groupContext.maxMessages,
+    'groupContext.maxMinutes': currentConfig.groupContext.maxMinutes,
+    'groupContext.maxChars': currentConfig.groupContext.maxChars,
+    'permissions.owners': currentConfig.permissions.owners.join(', '),
+    'permissions.admins': currentConfig.permissions.admins.join(', '),
+    'permissions.trusted': currentConfig.permissions.trusted.join(', '),
+    'permissions.users': currentConfig.permissions.users.join(', '),
+    'permissions.banned': currentConfig.permissions.banned.join(', '),
+    'permissions.defaultRole': currentConfig.permissions.defaultRole,
+    'permissions.groupOwnerRole': currentConfig.permissions.groupOwnerRole,
+    'permissions.groupAdminRole': currentConfig.permissions.groupAdminRole,
+    'permissions.grants.user.commands': currentConfig.permissions.grants.user.commands.join(', '),
+    'permissions.grants.user.features': currentConfig.permissions.grants.user.features.join(', '),
+    'permissions.grants.trusted.commands': currentConfig.permissions.grants.trusted.commands.join(', '),
+    'permissions.grants.trusted.features': currentConfig.permissions.grants.trusted.features.join(', '),
+    'permissions.grants.admin.commands': currentConfig.permissions.grants.admin.commands.join(', '),
+    'permissions.grants.admin.features': currentConfig.permissions.grants.admin.features.join(', '),
+    'quota.enabled': currentConfig.quota.enabled,
+    'quota.userPerHour': currentConfig.quota.userPerHour,
+    'quota.userPerDay': currentConfig.quota.userPerDay,
+    'quota.groupPerHour': currentConfig.quota.groupPerHour,
+    'quota.groupPerDay': currentConfig.quota.groupPerDay,
+    'quota.globalPerHour': currentConfig.quota.globalPerHour,
+    'quota.globalPerDay': currentConfig.quota.globalPerDay,
+    'quota.exceededMessage': currentConfig.quota.exceededMessage,
+    'usage.enabled': currentConfig.usage.enabled,
+    'usage.retainDays': currentConfig.usage.retainDays,
+    'usage.userDailyTokens': currentConfig.usage.userDailyTokens,
+    'usage.groupDailyTokens': currentConfig.usage.groupDailyTokens,
+    'usage.globalDailyTokens': currentConfig.usage.globalDailyTokens,
+    'usage.budgetExceededMessage': currentConfig.usage.budgetExceededMessage,
     'media.cacheEnabled': currentConfig.media.cacheEnabled,
     'media.parseMface': currentConfig.media.parseMface,
     'media.cachePath': currentConfig.media.cachePath,
     'media.cacheMaxSizeMB': currentConfig.media.cacheMaxSizeMB,
     'media.cacheTTLMinutes': currentConfig.media.cacheTTLMinutes,
+    'media.sendAllowedRoots': currentConfig.media.sendAllowedRoots.join(', '),
+    'media.sendMaxImageMB': currentConfig.media.sendMaxImageMB,
+    'media.sendMaxFileMB': currentConfig.media.sendMaxFileMB,
+    'media.sendAllowRemote': currentConfig.media.sendAllowRemote,
   };
 };
 
@@ -873,42 +1895,103 @@ export const plugin_set_config = async (ctx: any, config: any): Promise<void> =>
   const unflattened = unflattenConfig(config);
   // Convert comma-separated whitelist strings back to number[]
   if (unflattened.behavior) {
-    if (typeof unflattened.behavior.adminQQ === 'string') {
-      unflattened.behavior.adminQQ = unflattened.behavior.adminQQ
-        .split(',').map((s: string) => s.trim()).filter(Boolean).map(Number);
-    }
-    if (typeof unflattened.behavior.userWhitelist === 'string') {
-      unflattened.behavior.userWhitelist = unflattened.behavior.userWhitelist
-        .split(',').map((s: string) => s.trim()).filter(Boolean).map(Number);
-    }
     if (typeof unflattened.behavior.groupWhitelist === 'string') {
       unflattened.behavior.groupWhitelist = unflattened.behavior.groupWhitelist
         .split(',').map((s: string) => s.trim()).filter(Boolean).map(Number);
     }
-    if (typeof unflattened.behavior.userBlacklist === 'string') {
-      unflattened.behavior.userBlacklist = unflattened.behavior.userBlacklist
+    if (typeof unflattened.behavior.groupBlacklist === 'string') {
+      unflattened.behavior.groupBlacklist = unflattened.behavior.groupBlacklist
         .split(',').map((s: string) => s.trim()).filter(Boolean).map(Number);
     }
   }
-  currentConfig = deepMerge({ ...DEFAULT_CONFIG }, unflattened);
+  if (unflattened.triggers) {
+    if (typeof unflattened.triggers.nicknames === 'string') {
+      unflattened.triggers.nicknames = unflattened.triggers.nicknames
+        .split(',').map((s: string) => s.trim()).filter(Boolean);
+    }
+    if (typeof unflattened.triggers.keywords === 'string') {
+      unflattened.triggers.keywords = unflattened.triggers.keywords
+        .split(',').map((s: string) => s.trim()).filter(Boolean);
+    }
+  }
+  if (unflattened.permissions) {
+    const perms = unflattened.permissions;
+    for (const key of ['owners', 'admins', 'trusted', 'users', 'banned']) {
+      if (typeof perms[key] === 'string') {
+        perms[key] = perms[key].split(',').map((s: string) => s.trim()).filter(Boolean).map(Number);
+      }
+    }
+    for (const grant of Object.values<any>(perms.grants || {})) {
+      for (const key of ['commands', 'features']) {
+        if (typeof grant[key] === 'string') {
+          grant[key] = grant[key].split(',').map((s: string) => s.trim()).filter(Boolean);
+        }
+      }
+    }
+  }
+  if (unflattened.agents && typeof unflattened.agents.available === 'string') {
+    unflattened.agents.available = unflattened.agents.available
+      .split(',').map((s: string) => s.trim()).filter(Boolean);
+  }
+  if (unflattened.groupContext && typeof unflattened.groupContext.groups === 'string') {
+    unflattened.groupContext.groups = unflattened.groupContext.groups
+      .split(',').map((s: string) => s.trim()).filter(Boolean).map(Number);
+  }
+  if (unflattened.media && typeof unflattened.media.sendAllowedRoots === 'string') {
+    unflattened.media.sendAllowedRoots = unflattened.media.sendAllowedRoots
+      .split(',').map((s: string) => s.trim()).filter(Boolean);
+  }
+  currentConfig = deepMerge(deepMerge(structuredClone(DEFAULT_CONFIG), fileOnlyConfig()), unflattened);
   if (gatewayClient) {
     gatewayClient.disconnect();
     gatewayClient = null;
   }
-  if (ctx?.configPath) {
-    try {
-      const dir = path.dirname(ctx.configPath);
-      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-      fs.writeFileSync(ctx.configPath, JSON.stringify(currentConfig, null, 2), 'utf-8');
-    } catch (e: any) {
-      logger?.error('[OpenClaw] 保存配置失败: ' + e.message);
-    }
-  }
+  saveConfig(ctx?.configPath);
   startCacheCleanup();
 };
 
+/** 将 currentConfig 写入配置文件（WebUI 保存与 /oc 管理指令共用） */
+function saveConfig(filePath: string | null = configPath): boolean {
+  if (!filePath) return false;
+  try {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(currentConfig, null, 2), 'utf-8');
+    return true;
+  } catch (e: any) {
+    logger?.error('[OpenClaw] 保存配置失败: ' + e.message);
+    return false;
+  }
+}
+
 // ========== Utils ==========
 
+/** 仅能在配置文件中编辑（WebUI 不展示）的字段，保存 WebUI 配置时需保留 */
+function fileOnlyConfig(): any {
+  return {
+    triggers: {
+      regexes: currentConfig.triggers.regexes,
+      groups: currentConfig.triggers.groups,
+    },
+    format: {
+      groups: currentConfig.format.groups,
+    },
+    permissions: {
+      groups: currentConfig.permissions.groups,
+      banExpiry: currentConfig.permissions.banExpiry,
+    },
+    sessions: {
+      links: currentConfig.sessions.links,
+    },
+    agents: {
+      groups: currentConfig.agents.groups,
+      users: currentConfig.agents.users,
+      prefixes: currentConfig.agents.prefixes,
+    },
+    groups: currentConfig.groups,
+  };
+}
+
 function deepMerge(target: any, source: any): any {
   const result = { ...target };
   for (const key of Object.keys(source)) {
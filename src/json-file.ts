@@ -0,0 +1,42 @@
+// JSON 数据文件 - 读取、延迟合并写入与立即写盘，配额、用量、会话与 Agent 选择的持久化共用
+
+import fs from 'fs';
+import path from 'path';
+
+const SAVE_DELAY_MS = 5000;
+
+export class JsonFile {
+  private filePath: string | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** @param serialize 返回写盘时的完整内容 */
+  constructor(private readonly serialize: () => unknown) {}
+
+  /** 切换到新路径并读取内容；路径为空或文件不存在时返回 null，文件损坏时抛出 */
+  open(filePath: string | null): any {
+    this.filePath = filePath;
+    if (!filePath || !fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  /** 延迟写盘，期间的多次修改合并为一次写入 */
+  scheduleSave(): void {
+    if (this.saveTimer || !this.filePath) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try { this.flush(); } catch { /* retried on next change */ }
+    }, SAVE_DELAY_MS);
+  }
+
+  /** 立即写盘（插件卸载时调用） */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.filePath) return;
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.serialize()), 'utf-8');
+  }
+}
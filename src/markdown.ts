@@ -0,0 +1,147 @@
+// Markdown → QQ 纯文本 - 将 Agent 的 Markdown 回复转换为 QQ 中易读的文本
+
+import type { ReplyFormat } from './types';
+
+const FENCE_RE = /^\s*(```|~~~)(.*)$/;
+const TABLE_SEP_RE = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const URL_RE = /https?:\/\/[^\s<>"'）)\]]+/g;
+
+/** 表格列数不超过该值且总宽度较小时，light 模式按对齐文本渲染，否则渲染为列表 */
+const ALIGNED_TABLE_MAX_COLS = 3;
+const ALIGNED_TABLE_MAX_WIDTH = 36;
+
+/** 显示宽度：CJK 与全角字符计 2 */
+function displayWidth(text: string): number {
+  let w = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    w += code > 0x2e80 && !(code >= 0xff61 && code <= 0xff9f) ? 2 : 1;
+  }
+  return w;
+}
+
+function padEnd(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+}
+
+/** 处理行内标记：链接、图片、强调、删除线、行内代码；URL 与行内代码内容不受影响 */
+function renderInline(line: string, mode: ReplyFormat): string {
+  const protectedParts: string[] = [];
+  const protect = (s: string) => `\u0000${protectedParts.push(s) - 1}\u0000`;
+
+  let out = line
+    // 行内代码
+    .replace(/`([^`]+)`/g, (_, code) => protect(mode === 'plain' ? code : `\`${code}\``))
+    // 图片与链接
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt, url) => protect(alt ? `[图片: ${alt}] ${url}` : url))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, text, url) => {
+      return protect(text === url ? url : `${text} (${url})`);
+    })
+    .replace(/<(https?:\/\/[^>]+)>/g, (_, url) => protect(url))
+    .replace(URL_RE, (url) => protect(url));
+
+  out = out
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1');
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i) => protectedParts[Number(i)]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((c) => c.trim());
+}
+
+function renderTable(lines: string[], mode: ReplyFormat): string[] {
+  const header = splitTableRow(lines[0]).map((c) => renderInline(c, mode));
+  const rows = lines.slice(2).map((l) => splitTableRow(l).map((c) => renderInline(c, mode)));
+
+  const widths = header.map((h, i) => Math.max(displayWidth(h), ...rows.map((r) => displayWidth(r[i] || ''))));
+  const totalWidth = widths.reduce((a, b) => a + b, 0) + (widths.length - 1) * 2;
+
+  if (mode === 'light' && header.length <= ALIGNED_TABLE_MAX_COLS && totalWidth <= ALIGNED_TABLE_MAX_WIDTH) {
+    const fmt = (cells: string[]) => cells.map((c, i) => padEnd(c || '', widths[i])).join('  ').trimEnd();
+    return [fmt(header), ...rows.map(fmt)];
+  }
+
+  // 宽表格按行渲染为列表
+  const bullet = mode === 'light' ? '• ' : '- ';
+  return rows.map((r) => bullet + header.map((h, i) => `${h}: ${r[i] ?? ''}`).join('，'));
+}
+
+/**
+ * 按模式转换 Markdown：
+ * - raw：原样返回
+ * - plain：去除全部标记，仅保留文字、链接与代码内容；代码块围栏暂留为 ``` 行，
+ *   供 MEDIA 指令解析与出站消息段构建识别代码块，发送前再用 stripFenceLines 去除
+ * - light：保留轻量结构（标题、列表符号、引用、分隔线、代码块围栏）
+ * 以 MEDIA 开头的指令行始终原样保留。
+ */
+export function renderMarkdown(text: string, mode: ReplyFormat): string {
+  if (mode === 'raw' || !text) return text;
+
+  const lines = text.split('\n');
+  const out: string[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      inFence = !inFence;
+      out.push(mode === 'light' && inFence && fence[2].trim() ? `\`\`\`${fence[2].trim()}` : '```');
+      continue;
+    }
+    if (inFence || /^MEDIA(\[\w+\])?:/.test(line)) {
+      out.push(line);
+      continue;
+    }
+
+    // 表格：表头 + 分隔行 + 数据行
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEP_RE.test(lines[i + 1])) {
+      let end = i + 2;
+      while (end < lines.length && lines[end].includes('|') && lines[end].trim()) end++;
+      out.push(...renderTable(lines.slice(i, end), mode));
+      i = end - 1;
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const title = renderInline(heading[2], mode);
+      out.push(mode === 'light' && heading[1].length <= 2 ? `【${title}】` : title);
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      if (mode === 'light') out.push('────────');
+      continue;
+    }
+
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (quote) {
+      const body = renderInline(quote[1], mode);
+      out.push(mode === 'light' ? `│ ${body}` : body);
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(\[[ xX]\]\s+)?(.*)$/);
+    if (bullet) {
+      const check = bullet[2] ? (bullet[2].trim() === '[ ]' ? '☐ ' : '☑ ') : '';
+      const marker = mode === 'light' ? '• ' : '- ';
+      out.push(`${bullet[1]}${check || marker}${renderInline(bullet[3], mode)}`);
+      continue;
+    }
+
+    out.push(renderInline(line, mode));
+  }
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/** 去除代码块围栏行（plain 模式发送前调用） */
+export function stripFenceLines(text: string): string {
+  return text.split('\n').filter((line) => !FENCE_RE.test(line)).join('\n');
+}
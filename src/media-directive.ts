@@ -0,0 +1,139 @@
+// MEDIA 指令 - 解析 Agent 回复中的 MEDIA: 行并按沙箱策略校验
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+
+export type MediaKind = 'image' | 'voice' | 'video' | 'file';
+
+export interface MediaDirective {
+  /** MEDIA[kind]: 显式指定的类型，未指定时按扩展名推断 */
+  kind?: MediaKind;
+  source: string;
+}
+
+export interface MediaPolicy {
+  /** 允许发送的本地目录（符号链接解析后比较） */
+  allowedRoots: string[];
+  maxImageMB: number;
+  maxFileMB: number;
+  /** 是否允许 http(s) 链接（本机与内网地址始终拒绝） */
+  allowRemote: boolean;
+}
+
+export type ResolvedMedia =
+  | { ok: true; kind: MediaKind; file: string; name: string }
+  | { ok: false; reason: string };
+
+const DIRECTIVE_RE = /^MEDIA(?:\[(image|voice|video|file)\])?:\s*(.+)$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+const IMAGE_EXTS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
+const VOICE_EXTS = ['.amr', '.silk', '.mp3', '.wav', '.ogg', '.m4a', '.flac'];
+const VIDEO_EXTS = ['.mp4', '.mov', '.mkv', '.webm', '.avi'];
+
+/** 提取 MEDIA 指令并返回去除指令行后的文本，代码块内的 MEDIA: 行原样保留 */
+export function parseMediaDirectives(text: string): { directives: MediaDirective[]; cleanText: string } {
+  const directives: MediaDirective[] = [];
+  const kept: string[] = [];
+  let inFence = false;
+  for (const line of text.split('\n')) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(DIRECTIVE_RE);
+    if (!match) {
+      kept.push(line);
+      continue;
+    }
+    const source = match[2].trim();
+    if (source) directives.push({ kind: match[1] as MediaKind | undefined, source });
+  }
+  return { directives, cleanText: kept.join('\n').trim() };
+}
+
+function inferKind(name: string): MediaKind {
+  const ext = path.extname(name).toLowerCase();
+  if (IMAGE_EXTS.includes(ext)) return 'image';
+  if (VOICE_EXTS.includes(ext)) return 'voice';
+  if (VIDEO_EXTS.includes(ext)) return 'video';
+  return 'file';
+}
+
+/** 本机、内网、链路本地等地址，仅按字面主机名判断 */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true;
+  // IPv4 映射地址：URL 会把 ::ffff:127.0.0.1 规范化为 ::ffff:7f00:1
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  const ip = mapped
+    ? [parseInt(mapped[1], 16) >> 8, parseInt(mapped[1], 16) & 255, parseInt(mapped[2], 16) >> 8, parseInt(mapped[2], 16) & 255].join('.')
+    : host;
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+  if (net.isIPv6(ip)) {
+    return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip);
+  }
+  return false;
+}
+
+function realpathOrNull(p: string): string | null {
+  try { return fs.realpathSync(p); } catch { return null; }
+}
+
+function isWithin(child: string, root: string): boolean {
+  const rel = path.relative(root, child);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/**
+ * 校验单个 MEDIA 指令：本地路径须位于允许目录内且不超过大小上限，
+ * base64 按解码后大小限制，http(s) 链接需显式允许且不能指向本机或内网。
+ */
+export function resolveMediaDirective(directive: MediaDirective, policy: MediaPolicy): ResolvedMedia {
+  const { source } = directive;
+  const limitFor = (kind: MediaKind) => (kind === 'image' ? policy.maxImageMB : policy.maxFileMB) * 1024 * 1024;
+
+  if (/^https?:\/\//i.test(source)) {
+    if (!policy.allowRemote) return { ok: false, reason: '不允许发送远程链接' };
+    let url: URL;
+    try { url = new URL(source); } catch { return { ok: false, reason: '链接格式无效' }; }
+    if (isPrivateHost(url.hostname)) return { ok: false, reason: '不允许发送本机或内网地址' };
+    const name = path.basename(source.split(/[?#]/)[0]) || 'file';
+    return { ok: true, kind: directive.kind || inferKind(name), file: source, name };
+  }
+
+  if (source.startsWith('base64://')) {
+    const payload = source.slice('base64://'.length);
+    const kind = directive.kind || 'image';
+    const size = Math.floor(payload.length * 3 / 4);
+    if (size > limitFor(kind)) return { ok: false, reason: `base64 内容超过大小上限 (${(size / 1048576).toFixed(1)}MB)` };
+    return { ok: true, kind, file: source, name: `${kind}-${Date.now()}` };
+  }
+
+  const rawPath = source.startsWith('file://') ? source.slice('file://'.length) : source;
+  if (!path.isAbsolute(rawPath)) return { ok: false, reason: '仅允许绝对路径' };
+
+  const real = realpathOrNull(rawPath);
+  if (!real) return { ok: false, reason: '文件不存在' };
+
+  const roots = policy.allowedRoots
+    .map((r) => realpathOrNull(r))
+    .filter((r): r is string => !!r);
+  if (!roots.some((root) => isWithin(real, root))) return { ok: false, reason: '路径不在允许的目录内' };
+
+  let stat: fs.Stats;
+  try { stat = fs.statSync(real); } catch { return { ok: false, reason: '文件不可读' }; }
+  if (!stat.isFile()) return { ok: false, reason: '不是普通文件' };
+
+  const name = path.basename(real);
+  const kind = directive.kind || inferKind(name);
+  if (stat.size > limitFor(kind)) {
+    return { ok: false, reason: `文件超过大小上限 (${(stat.size / 1048576).toFixed(1)}MB)` };
+  }
+  return { ok: true, kind, file: real, name };
+}
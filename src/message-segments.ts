@@ -0,0 +1,180 @@
+// 消息段解析 - 统一处理事件消息、引用消息与 CQ 码字符串
+
+import { faceName } from './faces';
+import { decodeJsonCard, decodeLocation, decodeMusic, decodeShare, decodeXmlCard, formatCard } from './card-segments';
+import type { ExtractedMedia, ForwardRef, MessageSegment, ParsedMessage } from './types';
+
+export interface SegmentParseOptions {
+  /** bot 自身 QQ，@bot 不计入文本 */
+  botUserId?: string | number | null;
+  /** 商城表情是否作为图片下载 */
+  mfaceAsImage?: boolean;
+}
+
+/** 解析过程中的累积状态，渲染器向其中写入文本、媒体与引用 */
+export interface SegmentParseState {
+  textParts: string[];
+  media: ExtractedMedia[];
+  replyMessageId: string | null;
+  forwards: ForwardRef[];
+}
+
+export type SegmentRenderer = (
+  data: Record<string, any>,
+  state: SegmentParseState,
+  opts: SegmentParseOptions
+) => void;
+
+const renderers = new Map<string, SegmentRenderer>();
+
+/** 注册（或覆盖）某种消息段的渲染器 */
+export function registerSegmentRenderer(type: string, renderer: SegmentRenderer): void {
+  renderers.set(type, renderer);
+}
+
+// ========== CQ Code ==========
+
+const CQ_ESCAPES: Record<string, string> = {
+  '&#44;': ',',
+  '&#91;': '[',
+  '&#93;': ']',
+  '&amp;': '&',
+};
+
+export function unescapeCQ(text: string): string {
+  return text.replace(/&#44;|&#91;|&#93;|&amp;/g, (m) => CQ_ESCAPES[m]);
+}
+
+/** 将 raw_message 形式的 CQ 码字符串解析为消息段数组 */
+export function parseCQString(raw: string): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  const cqRegex = /\[CQ:([\w.-]+)((?:,[^\]]*)?)\]/g;
+  let lastIdx = 0;
+  let match;
+
+  while ((match = cqRegex.exec(raw)) !== null) {
+    if (match.index > lastIdx) {
+      segments.push({ type: 'text', data: { text: unescapeCQ(raw.slice(lastIdx, match.index)) } });
+    }
+    lastIdx = match.index + match[0].length;
+
+    const data: Record<string, string> = {};
+    const paramsStr = match[2];
+    if (paramsStr) {
+      for (const p of paramsStr.slice(1).split(',')) {
+        const eq = p.indexOf('=');
+        if (eq > 0) data[p.slice(0, eq)] = unescapeCQ(p.slice(eq + 1));
+      }
+    }
+    segments.push({ type: match[1], data });
+  }
+
+  if (lastIdx < raw.length) {
+    segments.push({ type: 'text', data: { text: unescapeCQ(raw.slice(lastIdx)) } });
+  }
+  return segments;
+}
+
+/** 接受 OneBot 消息段数组或 CQ 码字符串，统一为消息段数组 */
+export function normalizeSegments(message: unknown, rawMessage?: unknown): MessageSegment[] {
+  if (Array.isArray(message) && message.length > 0) {
+    return message.filter((seg) => seg && typeof seg.type === 'string');
+  }
+  if (typeof message === 'string' && message) return parseCQString(message);
+  if (typeof rawMessage === 'string' && rawMessage) return parseCQString(rawMessage);
+  return [];
+}
+
+// ========== Parsing ==========
+
+export function parseSegments(segments: MessageSegment[], opts: SegmentParseOptions = {}): ParsedMessage {
+  const state: SegmentParseState = { textParts: [], media: [], replyMessageId: null, forwards: [] };
+  for (const seg of segments) {
+    const renderer = renderers.get(seg.type);
+    if (renderer) renderer(seg.data || {}, state, opts);
+  }
+  return {
+    extractedText: state.textParts.join(' '),
+    extractedMedia: state.media,
+    replyMessageId: state.replyMessageId,
+    forwards: state.forwards,
+  };
+}
+
+// ========== Built-in Renderers ==========
+
+registerSegmentRenderer('text', (data, state) => {
+  const t = data.text?.trim();
+  if (t) state.textParts.push(t);
+});
+
+registerSegmentRenderer('at', (data, state, opts) => {
+  if (opts.botUserId != null && String(data.qq) === String(opts.botUserId)) return;
+  state.textParts.push(data.qq === 'all' ? '@全体成员' : `@${data.name || data.qq}`);
+});
+
+registerSegmentRenderer('image', (data, state) => {
+  if (data.url) state.media.push({ type: 'image', url: data.url });
+});
+
+// 群文件等常不带 url，保留 file_id 以便之后通过 get_file 等接口换取
+registerSegmentRenderer('file', (data, state) => {
+  const fileId = data.file_id || (data.url ? undefined : data.file);
+  if (data.url || fileId) {
+    state.media.push({ type: 'file', url: data.url || undefined, file_id: fileId, name: data.name || data.file });
+  }
+});
+
+registerSegmentRenderer('record', (data, state) => {
+  const fileId = data.file_id || data.file;
+  if (data.url || fileId) state.media.push({ type: 'voice', url: data.url || undefined, file_id: fileId });
+});
+
+registerSegmentRenderer('video', (data, state) => {
+  const fileId = data.file_id || data.file;
+  if (data.url || fileId) state.media.push({ type: 'video', url: data.url || undefined, file_id: fileId });
+});
+
+registerSegmentRenderer('reply', (data, state) => {
+  if (data.id) state.replyMessageId = String(data.id);
+});
+
+registerSegmentRenderer('forward', (data, state) => {
+  state.forwards.push({
+    id: data.id != null ? String(data.id) : undefined,
+    content: Array.isArray(data.content) ? data.content : undefined,
+  });
+});
+
+registerSegmentRenderer('face', (data, state) => {
+  state.textParts.push(`[${faceName(data.id)}]`);
+});
+
+registerSegmentRenderer('mface', (data, state, opts) => {
+  const emojiId = data.emoji_id;
+  if (opts.mfaceAsImage && emojiId) {
+    const url = `https://gxh.vip.qq.com/club/item/parcel/item/${emojiId.slice(0, 2)}/${emojiId}/raw300.gif`;
+    state.media.push({ type: 'image', url });
+  }
+  state.textParts.push(data.summary || '[商城表情]');
+});
+
+registerSegmentRenderer('json', (data, state) => {
+  state.textParts.push(formatCard(decodeJsonCard(data.data)));
+});
+
+registerSegmentRenderer('xml', (data, state) => {
+  state.textParts.push(formatCard(decodeXmlCard(data.data)));
+});
+
+registerSegmentRenderer('location', (data, state) => {
+  state.textParts.push(formatCard(decodeLocation(data)));
+});
+
+registerSegmentRenderer('music', (data, state) => {
+  state.textParts.push(formatCard(decodeMusic(data)));
+});
+
+registerSegmentRenderer('share', (data, state) => {
+  state.textParts.push(formatCard(decodeShare(data)));
+});
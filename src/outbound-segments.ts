@@ -0,0 +1,109 @@
+// 出站消息段构建 - 将 Agent 回复中的 @、表情名称与 CQ 码还原为 QQ 消息段
+
+import { faceIdByName } from './faces';
+import { parseCQString } from './message-segments';
+import type { MessageSegment } from './types';
+
+export interface OutboundOptions {
+  /** 是否允许 @ 该 QQ（通常要求为群成员）；私聊中应始终返回 false */
+  canMention: (qq: string) => Promise<boolean>;
+  /** 是否允许 @全体成员 */
+  allowAtAll: boolean;
+  /** 去除代码块围栏行（plain 模式），代码内容仍原样保留 */
+  dropFences?: boolean;
+}
+
+/** 仅允许 Agent 通过 CQ 码发送的段类型，其余（如 image / file）须走 MEDIA 指令的沙箱 */
+const ALLOWED_CQ_TYPES = new Set(['at', 'face', 'reply']);
+
+const TOKEN_RE = new RegExp(
+  [
+    '\\[CQ:[^\\]]+\\]',
+    '(?<![\\w.])@全体成员',
+    '(?<![\\w.])@([^\\s@()（）\\[\\]]{1,32})[(（](\\d{5,12})[)）]',
+    '(?<![\\w.])@(\\d{5,12})(?!\\d)',
+    '\\[([^\\[\\]\\s]{1,8})\\]',
+  ].join('|'),
+  'g'
+);
+
+const FENCE_RE = /^\s*(```|~~~)/;
+
+function pushText(out: MessageSegment[], text: string): void {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last?.type === 'text') last.data.text += text;
+  else out.push({ type: 'text', data: { text } });
+}
+
+async function convertToken(match: RegExpExecArray, opts: OutboundOptions): Promise<MessageSegment[] | null> {
+  const token = match[0];
+
+  if (token.startsWith('[CQ:')) {
+    const segs = parseCQString(token);
+    const seg = segs[0];
+    if (!seg || !ALLOWED_CQ_TYPES.has(seg.type)) return null;
+    if (seg.type === 'at') {
+      const qq = String(seg.data.qq ?? '');
+      if (qq === 'all' ? !opts.allowAtAll : !(await opts.canMention(qq))) return null;
+      return [{ type: 'at', data: { qq } }];
+    }
+    if (seg.type === 'face' && !/^\d+$/.test(String(seg.data.id ?? ''))) return null;
+    return [seg];
+  }
+
+  if (token === '@全体成员') {
+    return opts.allowAtAll ? [{ type: 'at', data: { qq: 'all' } }] : null;
+  }
+
+  const qq = match[2] || match[3];
+  if (qq) return (await opts.canMention(qq)) ? [{ type: 'at', data: { qq } }] : null;
+
+  if (match[4]) {
+    const id = faceIdByName(match[4]);
+    return id != null ? [{ type: 'face', data: { id: String(id) } }] : null;
+  }
+  return null;
+}
+
+/**
+ * 将文本构建为消息段数组。代码块内的内容保持原样；
+ * 无法转换或不被允许的标记（如未知成员、@全体成员）以原文保留。
+ */
+export async function buildOutboundSegments(text: string, opts: OutboundOptions): Promise<MessageSegment[]> {
+  const out: MessageSegment[] = [];
+  let inFence = false;
+  const lines = text.split('\n');
+
+  for (let li = 0; li < lines.length; li++) {
+    const line = lines[li];
+    const suffix = li < lines.length - 1 ? '\n' : '';
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence;
+      if (!opts.dropFences) pushText(out, line + suffix);
+      continue;
+    }
+    if (inFence) {
+      pushText(out, line + suffix);
+      continue;
+    }
+
+    let lastIdx = 0;
+    TOKEN_RE.lastIndex = 0;
+    let match;
+    while ((match = TOKEN_RE.exec(line)) !== null) {
+      const converted = await convertToken(match, opts);
+      if (!converted) continue;
+      pushText(out, line.slice(lastIdx, match.index));
+      out.push(...converted);
+      lastIdx = match.index + match[0].length;
+    }
+    pushText(out, line.slice(lastIdx) + suffix);
+  }
+  return out;
+}
+
+/** 第一个非空白消息段，用于判断回复开头是否已有 @ / 引用，避免与自动添加的前缀重复 */
+export function leadingSegment(segments: MessageSegment[]): MessageSegment | undefined {
+  return segments.find((seg) => !(seg.type === 'text' && !String(seg.data.text).trim()));
+}
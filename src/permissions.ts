@@ -0,0 +1,222 @@
+// 角色权限 - 按全局 / 群规则解析用户角色，判断指令与功能授权，迁移旧版白名单配置
+
+import type { GrantedRole, PermissionFeature, PermissionsConfig, Role, RoleMembers } from './types';
+
+export const ROLE_ORDER: Role[] = ['banned', 'user', 'trusted', 'admin', 'owner'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: '所有者',
+  admin: '管理员',
+  trusted: '信任用户',
+  user: '普通用户',
+  banned: '已封禁',
+};
+
+/** 由 model 功能授权的指令 */
+export const MODEL_COMMANDS = ['/model', '/models', '/think', '/reasoning', '/verbose'];
+
+const MEMBER_LISTS: Array<[keyof RoleMembers, Role]> = [
+  ['banned', 'banned'],
+  ['admins', 'admin'],
+  ['trusted', 'trusted'],
+  ['users', 'user'],
+];
+
+export interface RoleSubject {
+  userId: number | string;
+  groupId?: number | string;
+  /** 群消息中 event.sender.role：owner / admin / member */
+  senderRole?: string;
+}
+
+export interface ResolvedGrants {
+  role: Role;
+  commands: Set<string>;
+  features: Set<string>;
+}
+
+export function roleAtLeast(role: Role, min: Role): boolean {
+  return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(min);
+}
+
+function listed(list: Array<number | string> | undefined, id: number | string): boolean {
+  return !!list?.some((x) => Number(x) === Number(id));
+}
+
+function explicitRole(members: Partial<RoleMembers>, userId: number | string): Role | null {
+  for (const [key, role] of MEMBER_LISTS) {
+    if (listed(members[key], userId)) return role;
+  }
+  return null;
+}
+
+/**
+ * 解析用户角色：所有者 > 显式封禁 > 显式角色与群主 / 群管理员映射中较高者 > 默认角色。
+ * 群规则中的显式角色优先于全局。
+ */
+export function resolveRole(config: PermissionsConfig, subject: RoleSubject): Role {
+  const { userId, groupId, senderRole } = subject;
+  if (listed(config.owners, userId)) return 'owner';
+
+  const group = groupId != null ? config.groups?.[String(groupId)] : undefined;
+  const explicit = (group && explicitRole(group, userId)) || explicitRole(config, userId);
+  if (explicit === 'banned') return 'banned';
+
+  let fromSender: Role | null = null;
+  if (senderRole === 'owner') fromSender = group?.groupOwnerRole ?? config.groupOwnerRole;
+  else if (senderRole === 'admin') fromSender = group?.groupAdminRole ?? config.groupAdminRole;
+
+  const candidates = [explicit, fromSender].filter((r): r is Role => !!r);
+  if (candidates.length > 0) {
+    return candidates.reduce((a, b) => (ROLE_ORDER.indexOf(b) > ROLE_ORDER.indexOf(a) ? b : a));
+  }
+  return group?.defaultRole ?? config.defaultRole;
+}
+
+/** 汇总角色授权：包含所有较低角色的授权，群规则按字段覆盖全局 */
+export function resolveGrants(config: PermissionsConfig, role: Role, groupId?: number | string): ResolvedGrants {
+  const grants: ResolvedGrants = { role, commands: new Set(), features: new Set() };
+  if (role === 'banned') return grants;
+  if (role === 'owner') {
+    grants.commands.add('*');
+    grants.features.add('*');
+  }
+  const group = groupId != null ? config.groups?.[String(groupId)] : undefined;
+  for (const r of ROLE_ORDER.slice(1, ROLE_ORDER.indexOf(role) + 1) as GrantedRole[]) {
+    const base = config.grants?.[r];
+    const override = group?.grants?.[r];
+    for (const cmd of override?.commands ?? base?.commands ?? []) grants.commands.add(cmd.toLowerCase());
+    for (const feature of override?.features ?? base?.features ?? []) grants.features.add(feature);
+  }
+  return grants;
+}
+
+export function canUseCommand(grants: ResolvedGrants, command: string): boolean {
+  const cmd = command.toLowerCase();
+  if (grants.commands.has('*') || grants.commands.has(cmd)) return true;
+  return MODEL_COMMANDS.includes(cmd) && hasFeature(grants, 'model');
+}
+
+export function hasFeature(grants: ResolvedGrants, feature: PermissionFeature): boolean {
+  return grants.features.has('*') || grants.features.has(feature);
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 3600 * 1000, d: 24 * 3600 * 1000, w: 7 * 24 * 3600 * 1000 };
+
+/** 解析时长，如 30m、2h、7d；无单位按分钟，无法解析返回 null */
+export function parseDuration(text: string): number | null {
+  const m = text.trim().toLowerCase().match(/^(\d+)\s*([smhdw])?$/);
+  if (!m) return null;
+  const ms = Number(m[1]) * DURATION_UNITS[m[2] || 'm'];
+  return ms > 0 ? ms : null;
+}
+
+export function formatDuration(ms: number): string {
+  const units: Array<[string, number]> = [['天', DURATION_UNITS.d], ['小时', DURATION_UNITS.h], ['分钟', DURATION_UNITS.m]];
+  for (const [label, size] of units) {
+    if (ms >= size && ms % size === 0) return `${ms / size} ${label}`;
+  }
+  return `${Math.ceil(ms / DURATION_UNITS.m)} 分钟`;
+}
+
+function addId(list: number[], id: number): boolean {
+  if (list.some((x) => Number(x) === id)) return false;
+  list.push(id);
+  return true;
+}
+
+function removeId(list: number[], id: number): boolean {
+  const idx = list.findIndex((x) => Number(x) === id);
+  if (idx < 0) return false;
+  list.splice(idx, 1);
+  return true;
+}
+
+/** 将 QQ 加入 / 移出全局角色列表（原地修改），返回是否发生变化 */
+export function setMember(config: PermissionsConfig, key: keyof RoleMembers, qq: number, present: boolean): boolean {
+  config[key] ||= [];
+  return present ? addId(config[key], qq) : removeId(config[key], qq);
+}
+
+/** 封禁用户，durationMs 为空时永久封禁 */
+export function banUser(config: PermissionsConfig, qq: number, durationMs: number | null, now = Date.now()): void {
+  setMember(config, 'banned', qq, true);
+  config.banExpiry ||= {};
+  if (durationMs) config.banExpiry[String(qq)] = now + durationMs;
+  else delete config.banExpiry[String(qq)];
+}
+
+export function unbanUser(config: PermissionsConfig, qq: number): boolean {
+  if (config.banExpiry) delete config.banExpiry[String(qq)];
+  return setMember(config, 'banned', qq, false);
+}
+
+/** 解除已到期的临时封禁，返回被解封的 QQ */
+export function expireBans(config: PermissionsConfig, now = Date.now()): number[] {
+  const expired: number[] = [];
+  for (const [qq, until] of Object.entries(config.banExpiry || {})) {
+    if (until > now) continue;
+    unbanUser(config, Number(qq));
+    expired.push(Number(qq));
+  }
+  return expired;
+}
+
+/** 接收告警通知的用户：所有者与全局管理员 */
+export function notifyRecipients(config: PermissionsConfig): number[] {
+  return [...new Set([...config.owners, ...config.admins].map(Number))];
+}
+
+const LEGACY_KEYS = ['adminQQ', 'commandAdminOnly', 'userWhitelist', 'userBlacklist', 'groupBypassUserWhitelist'];
+
+/**
+ * 将旧版 behavior.adminQQ / userWhitelist / userBlacklist / groupBypassUserWhitelist / commandAdminOnly
+ * 迁移到 permissions（原地修改），发生迁移时返回 true。
+ * - adminQQ → owners
+ * - userBlacklist → banned
+ * - userWhitelist → users，且 defaultRole 改为 banned；groupBypassUserWhitelist 时白名单群的 defaultRole 为 user
+ * - commandAdminOnly（且配置了管理员）→ 普通用户与信任用户不授权任何指令，否则普通用户可用全部指令
+ */
+export function migrateLegacyPermissions(raw: any): boolean {
+  const behavior = raw?.behavior;
+  if (!behavior || !LEGACY_KEYS.some((key) => key in behavior)) return false;
+
+  const perms = (raw.permissions ||= {});
+  const toIds = (v: unknown): number[] => (Array.isArray(v) ? v.map(Number).filter((n) => !isNaN(n)) : []);
+  const add = (key: string, ids: number[]) => {
+    if (ids.length > 0) perms[key] = [...new Set([...toIds(perms[key]), ...ids])];
+  };
+
+  const admins = toIds(behavior.adminQQ);
+  const whitelist = toIds(behavior.userWhitelist);
+  add('owners', admins);
+  add('banned', toIds(behavior.userBlacklist));
+
+  if (whitelist.length > 0) {
+    add('users', whitelist);
+    perms.defaultRole = 'banned';
+    // 旧版白名单不区分群主 / 群管理员，映射为 banned 使其不高于默认角色，避免升级后放宽访问
+    perms.groupOwnerRole ??= 'banned';
+    perms.groupAdminRole ??= 'banned';
+    if (behavior.groupBypassUserWhitelist) {
+      perms.groups ||= {};
+      for (const gid of toIds(behavior.groupWhitelist)) {
+        perms.groups[String(gid)] = {
+          ...perms.groups[String(gid)], defaultRole: 'user', groupOwnerRole: 'user', groupAdminRole: 'user',
+        };
+      }
+    }
+  }
+
+  // 旧版中非管理员要么可用全部指令，要么（commandAdminOnly）不可用任何指令
+  perms.grants ||= {};
+  if (behavior.commandAdminOnly && admins.length > 0) {
+    perms.grants.user = { ...perms.grants.user, commands: [], features: ['media'] };
+    perms.grants.trusted = { ...perms.grants.trusted, commands: [], features: [] };
+  } else {
+    perms.grants.user = { ...perms.grants.user, commands: ['*'], features: ['media', 'model'] };
+  }
+
+  for (const key of LEGACY_KEYS) delete behavior[key];
+  return true;
+}
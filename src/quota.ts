@@ -0,0 +1,122 @@
+// 使用配额 - 按用户 / 群 / 全局的滑动窗口计数（每小时、每天），计数持久化到磁盘
+
+import { JsonFile } from './json-file';
+
+export type QuotaScopeKind = 'user' | 'group' | 'global';
+export type QuotaWindow = 'hour' | 'day';
+
+export interface QuotaLimits {
+  userPerHour: number;
+  userPerDay: number;
+  groupPerHour: number;
+  groupPerDay: number;
+  globalPerHour: number;
+  globalPerDay: number;
+}
+
+export interface QuotaSubject {
+  userId: number | string;
+  groupId?: number | string;
+}
+
+export interface QuotaUsage {
+  scope: QuotaScopeKind;
+  window: QuotaWindow;
+  used: number;
+  /** 0 表示不限制 */
+  limit: number;
+  /** 窗口内最早一次请求移出窗口的时间，即至少恢复 1 次的时间 */
+  resetAt: number | null;
+}
+
+export const QUOTA_SCOPE_LABELS: Record<QuotaScopeKind, string> = { user: '个人', group: '本群', global: '全局' };
+export const QUOTA_WINDOW_LABELS: Record<QuotaWindow, string> = { hour: '每小时', day: '每日' };
+
+const WINDOW_MS: Record<QuotaWindow, number> = { hour: 3600 * 1000, day: 24 * 3600 * 1000 };
+
+function limitFor(limits: QuotaLimits, scope: QuotaScopeKind, window: QuotaWindow): number {
+  const key = `${scope}Per${window === 'hour' ? 'Hour' : 'Day'}` as keyof QuotaLimits;
+  return Number(limits[key]) || 0;
+}
+
+/** 恢复时间：当天显示 HH:mm，否则显示 MM-DD HH:mm */
+export function formatResetTime(time: number | null): string {
+  if (time == null) return '现在';
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const hm = `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  return d.toDateString() === new Date().toDateString() ? hm : `${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${hm}`;
+}
+
+export class QuotaTracker {
+  private hits = new Map<string, number[]>();
+  private file = new JsonFile(() => ({ hits: Object.fromEntries(this.hits) }));
+
+  /** 从文件加载计数；文件不存在或损坏时从零开始 */
+  load(filePath: string | null): void {
+    this.hits.clear();
+    const data = this.file.open(filePath);
+    const cutoff = Date.now() - WINDOW_MS.day;
+    for (const [key, times] of Object.entries<number[]>(data?.hits || {})) {
+      const recent = Array.isArray(times) ? times.filter((t) => typeof t === 'number' && t > cutoff) : [];
+      if (recent.length > 0) this.hits.set(key, recent);
+    }
+  }
+
+  /** 所有已配置上限的窗口使用情况 */
+  usage(subject: QuotaSubject, limits: QuotaLimits): QuotaUsage[] {
+    const out: QuotaUsage[] = [];
+    for (const [scope, key] of this.scopeKeys(subject)) {
+      const times = this.prune(key);
+      for (const window of ['hour', 'day'] as QuotaWindow[]) {
+        const limit = limitFor(limits, scope, window);
+        if (limit <= 0) continue;
+        const start = Date.now() - WINDOW_MS[window];
+        const inWindow = times.filter((t) => t > start);
+        out.push({
+          scope,
+          window,
+          used: inWindow.length,
+          limit,
+          resetAt: inWindow.length > 0 ? inWindow[0] + WINDOW_MS[window] : null,
+        });
+      }
+    }
+    return out;
+  }
+
+  /** 返回第一个已用尽的窗口，均未用尽时返回 null */
+  check(subject: QuotaSubject, limits: QuotaLimits): QuotaUsage | null {
+    return this.usage(subject, limits).find((u) => u.used >= u.limit) || null;
+  }
+
+  record(subject: QuotaSubject): void {
+    const now = Date.now();
+    for (const [, key] of this.scopeKeys(subject)) {
+      const times = this.prune(key);
+      times.push(now);
+      this.hits.set(key, times);
+    }
+    this.file.scheduleSave();
+  }
+
+  /** 立即写盘（插件卸载时调用） */
+  flush(): void {
+    this.file.flush();
+  }
+
+  private scopeKeys(subject: QuotaSubject): Array<[QuotaScopeKind, string]> {
+    const keys: Array<[QuotaScopeKind, string]> = [['user', `user:${subject.userId}`]];
+    if (subject.groupId != null) keys.push(['group', `group:${subject.groupId}`]);
+    keys.push(['global', 'global']);
+    return keys;
+  }
+
+  private prune(key: string): number[] {
+    const cutoff = Date.now() - WINDOW_MS.day;
+    const times = (this.hits.get(key) || []).filter((t) => t > cutoff);
+    if (times.length > 0) this.hits.set(key, times);
+    else this.hits.delete(key);
+    return times;
+  }
+}
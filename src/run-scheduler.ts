@@ -0,0 +1,107 @@
+// 运行调度 - 每个会话同时只有一个 Agent 运行，后续消息排队或合并，全局并发受限
+
+import type { DebounceResult, SessionQueueMode } from './types';
+
+interface PendingRun<M> {
+  input: DebounceResult;
+  meta: M;
+}
+
+interface SessionState<M> {
+  running: boolean;
+  pending: PendingRun<M>[];
+}
+
+export interface RunSchedulerOptions<M> {
+  maxConcurrent: () => number;
+  /** 按本次提交的 meta 读取排队方式 */
+  mode: (meta: M) => SessionQueueMode;
+  /** merge 模式下判断两次提交能否合并（如回复目标不同则不合并），默认总是合并 */
+  canMerge?: (pending: M, incoming: M) => boolean;
+  run: (input: DebounceResult, meta: M) => Promise<void>;
+  /** 消息进入排队时回调，ahead 为前面尚未完成的运行数；合并到已有排队批次时不回调 */
+  onQueued?: (meta: M, ahead: number) => void;
+  onError?: (error: unknown, meta: M) => void;
+}
+
+export class RunScheduler<M> {
+  private sessions = new Map<string, SessionState<M>>();
+  /** 有待运行消息、但当前没有运行中任务的会话，按先后等待全局并发名额 */
+  private waiting: string[] = [];
+  private active = 0;
+  private options: RunSchedulerOptions<M>;
+
+  constructor(options: RunSchedulerOptions<M>) {
+    this.options = options;
+  }
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /** 提交一次运行；会话空闲且有并发名额时立即开始 */
+  submit(key: string, input: DebounceResult, meta: M): void {
+    let state = this.sessions.get(key);
+    if (!state) {
+      state = { running: false, pending: [] };
+      this.sessions.set(key, state);
+    }
+
+    if (!state.running && state.pending.length === 0 && this.active < this.limit()) {
+      this.start(key, state, { input, meta });
+      return;
+    }
+
+    const last = state.pending[state.pending.length - 1];
+    if (last && this.options.mode(meta) === 'merge' && (this.options.canMerge?.(last.meta, meta) ?? true)) {
+      last.input = {
+        text: [last.input.text, input.text].filter(Boolean).join('\n'),
+        media: [...last.input.media, ...input.media],
+      };
+      last.meta = meta;
+      return;
+    }
+
+    state.pending.push({ input, meta });
+    if (!state.running && !this.waiting.includes(key)) this.waiting.push(key);
+
+    // 运行中：前面是当前运行与更早的排队；等待名额：前面是更早排队的会话
+    const ahead = state.running
+      ? state.pending.length
+      : state.pending.length + this.waiting.indexOf(key);
+    this.options.onQueued?.(meta, ahead);
+  }
+
+  /** 丢弃所有排队中的消息（运行中的不受影响） */
+  clear(): void {
+    for (const state of this.sessions.values()) state.pending = [];
+    this.waiting = [];
+  }
+
+  private limit(): number {
+    return Math.max(1, this.options.maxConcurrent());
+  }
+
+  private start(key: string, state: SessionState<M>, item: PendingRun<M>): void {
+    state.running = true;
+    this.active++;
+    this.options.run(item.input, item.meta)
+      .catch((e) => this.options.onError?.(e, item.meta))
+      .finally(() => {
+        state.running = false;
+        this.active--;
+        if (state.pending.length > 0) this.waiting.push(key);
+        else if (this.sessions.get(key) === state) this.sessions.delete(key);
+        this.pump();
+      });
+  }
+
+  private pump(): void {
+    while (this.active < this.limit() && this.waiting.length > 0) {
+      const key = this.waiting.shift()!;
+      const state = this.sessions.get(key);
+      const item = state?.pending.shift();
+      if (state && item) this.start(key, state, item);
+    }
+  }
+}
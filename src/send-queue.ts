@@ -0,0 +1,171 @@
+// 发送队列 - 按群 / 用户分队列发送，全局限速，临时错误指数退避重试，永久错误分类上报
+
+export type SendFailureKind = 'muted' | 'group_unavailable' | 'not_friend' | 'too_long' | 'risk_control' | 'transient';
+
+/** 永久失败的中文说明，用于日志与管理员通知 */
+export const SEND_FAILURE_LABELS: Record<SendFailureKind, string> = {
+  muted: 'bot 被禁言',
+  group_unavailable: '群已解散或 bot 不在群内',
+  not_friend: '对方不是好友',
+  too_long: '消息过长',
+  risk_control: '被风控拦截',
+  transient: '临时错误',
+};
+
+const FAILURE_PATTERNS: Array<[Exclude<SendFailureKind, 'transient'>, RegExp]> = [
+  ['muted', /禁言|\bmuted?\b|shut\s*up/i],
+  ['group_unavailable', /解散|群不存在|不在(该|此)?群|已退出|被移出|group\s*(not\s*found|not\s*exist|dismiss)|not\s*in\s*(the\s*)?group/i],
+  ['not_friend', /好友|not\s*(a\s*)?friend|stranger/i],
+  ['too_long', /过长|太长|超出长度|too\s*long|exceed.*length/i],
+  ['risk_control', /风控|risk/i],
+];
+
+export class SendError extends Error {
+  readonly kind: SendFailureKind;
+  readonly target: string;
+
+  constructor(kind: SendFailureKind, target: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'SendError';
+    this.kind = kind;
+    this.target = target;
+  }
+
+  get permanent(): boolean {
+    return this.kind !== 'transient';
+  }
+}
+
+/** 根据错误信息（及 NapCat 返回的 wording / message）判断失败类型，无法识别的按临时错误处理 */
+export function classifySendError(error: unknown): SendFailureKind {
+  const e = error as any;
+  const text = [e?.message, e?.wording, e?.msg, typeof error === 'string' ? error : '']
+    .filter(Boolean)
+    .join(' ');
+  for (const [kind, re] of FAILURE_PATTERNS) {
+    if (re.test(text)) return kind;
+  }
+  return 'transient';
+}
+
+export interface SendQueueOptions {
+  /** 同一目标两次发送的最小间隔 */
+  targetIntervalMs: () => number;
+  /** 所有目标合计的最小发送间隔（全局上限） */
+  globalIntervalMs: () => number;
+  maxRetries: () => number;
+  retryBaseMs: () => number;
+  onRetry?: (target: string, attempt: number, delayMs: number, error: unknown) => void;
+}
+
+interface QueueTask {
+  fn: () => Promise<unknown>;
+  resolve: () => void;
+  reject: (e: unknown) => void;
+}
+
+interface TargetQueue {
+  tasks: QueueTask[];
+  lastSendTime: number;
+  running: boolean;
+}
+
+const RETRY_MAX_DELAY_MS = 30000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export class SendQueue {
+  private queues = new Map<string, TargetQueue>();
+  private nextGlobalSlot = 0;
+  private generation = 0;
+  private options: SendQueueOptions;
+
+  constructor(options: SendQueueOptions) {
+    this.options = options;
+  }
+
+  /** 待发送的消息总数 */
+  get size(): number {
+    let n = 0;
+    for (const q of this.queues.values()) n += q.tasks.length;
+    return n;
+  }
+
+  pending(target: string): number {
+    return this.queues.get(target)?.tasks.length ?? 0;
+  }
+
+  /**
+   * 加入目标队列，实际发送完成后 resolve；
+   * 重试耗尽或遇到永久错误时以 SendError reject。
+   */
+  enqueue(target: string, fn: () => Promise<unknown>): Promise<void> {
+    let queue = this.queues.get(target);
+    if (!queue) {
+      queue = { tasks: [], lastSendTime: 0, running: false };
+      this.queues.set(target, queue);
+    }
+    const done = new Promise<void>((resolve, reject) => {
+      queue!.tasks.push({ fn, resolve, reject });
+    });
+    this.run(target, queue);
+    return done;
+  }
+
+  /** 丢弃所有待发送消息（插件卸载时调用） */
+  clear(): void {
+    this.generation++;
+    for (const [target, queue] of this.queues) {
+      for (const task of queue.tasks) task.reject(new SendError('transient', target, new Error('发送队列已清空')));
+      queue.tasks = [];
+    }
+    this.queues.clear();
+  }
+
+  private async run(target: string, queue: TargetQueue): Promise<void> {
+    if (queue.running) return;
+    queue.running = true;
+    const generation = this.generation;
+    while (queue.tasks.length > 0 && generation === this.generation) {
+      const task = queue.tasks.shift()!;
+      try {
+        await this.sendWithRetry(target, queue, task.fn);
+        task.resolve();
+      } catch (e) {
+        task.reject(e);
+      }
+    }
+    queue.running = false;
+  }
+
+  private async sendWithRetry(target: string, queue: TargetQueue, fn: () => Promise<unknown>): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(queue);
+      try {
+        await fn();
+        return;
+      } catch (e) {
+        const kind = classifySendError(e);
+        const error = new SendError(kind, target, e);
+        if (error.permanent || attempt >= this.options.maxRetries()) throw error;
+        const delay = Math.min(this.options.retryBaseMs() * 2 ** attempt, RETRY_MAX_DELAY_MS);
+        this.options.onRetry?.(target, attempt + 1, delay, e);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /** 同时满足目标间隔与全局间隔后再发送 */
+  private async waitForSlot(queue: TargetQueue): Promise<void> {
+    const targetWait = queue.lastSendTime + this.options.targetIntervalMs() - Date.now();
+    if (targetWait > 0) await sleep(targetWait);
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextGlobalSlot);
+    this.nextGlobalSlot = slot + Math.max(0, this.options.globalIntervalMs());
+    if (slot > now) await sleep(slot - now);
+    queue.lastSendTime = Date.now();
+  }
+}
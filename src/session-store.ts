@@ -0,0 +1,149 @@
+// 会话管理 - 记录每个会话基址的 epoch（sessionKey 后缀）与历史，支持空闲过期、/new 轮换、/resume 与会话关联，持久化到磁盘
+
+import { JsonFile } from './json-file';
+
+export interface SessionEntry {
+  /** 0 表示不带后缀的初始会话 */
+  epoch: number;
+  startedAt: number;
+  lastActive: number;
+}
+
+interface SessionState {
+  current: number;
+  /** 按开始时间由新到旧 */
+  entries: SessionEntry[];
+}
+
+export type SessionBaseInfo =
+  | { kind: 'private'; userId: string }
+  | { kind: 'group-user'; groupId: string; userId: string }
+  | { kind: 'group-shared'; groupId: string };
+
+/** 解析会话基址：qq-<QQ>、qq-g<群号>-<QQ>、qq-g<群号>（群共享） */
+export function parseSessionBase(base: string): SessionBaseInfo | null {
+  let m = base.match(/^qq-(\d+)$/);
+  if (m) return { kind: 'private', userId: m[1] };
+  m = base.match(/^qq-g(\d+)-(\d+)$/);
+  if (m) return { kind: 'group-user', groupId: m[1], userId: m[2] };
+  m = base.match(/^qq-g(\d+)$/);
+  return m ? { kind: 'group-shared', groupId: m[1] } : null;
+}
+
+/**
+ * 按关联表将会话基址映射到规范基址，仅一跳。
+ * 只允许同一用户的私聊 / 群内个人会话互相关联，涉及群共享会话或不同用户的关联一律忽略。
+ */
+export function resolveSessionLink(links: Record<string, string> | undefined, base: string): string {
+  const target = links?.[base];
+  if (!target || target === base) return base;
+  const from = parseSessionBase(base);
+  const to = parseSessionBase(target);
+  if (!from || !to || from.kind === 'group-shared' || to.kind === 'group-shared') return base;
+  return from.userId === to.userId ? target : base;
+}
+
+export class SessionStore {
+  private sessions = new Map<string, SessionState>();
+  private file = new JsonFile(() => ({ sessions: Object.fromEntries(this.sessions) }));
+
+  load(filePath: string | null): void {
+    this.sessions.clear();
+    const data = this.file.open(filePath);
+    for (const [base, state] of Object.entries<SessionState>(data?.sessions || {})) {
+      const entries = Array.isArray(state?.entries)
+        ? state.entries.filter((e) => Number.isInteger(e?.epoch) && e.epoch >= 0)
+        : [];
+      const current = Number.isInteger(state?.current) ? state.current : 0;
+      this.sessions.set(base, { current, entries });
+    }
+  }
+
+  /** 会话基址当前使用的 sessionKey：epoch 为 0 时即基址本身 */
+  key(base: string, epoch = this.epoch(base)): string {
+    return epoch > 0 ? `${base}-${epoch}` : base;
+  }
+
+  epoch(base: string): number {
+    return this.sessions.get(base)?.current ?? 0;
+  }
+
+  /** 历史会话（由新到旧），包含当前会话 */
+  list(base: string): SessionEntry[] {
+    return [...(this.sessions.get(base)?.entries || [])];
+  }
+
+  /** 开始新会话：epoch 取历史最大值 + 1，返回新 epoch */
+  rotate(base: string, maxHistory: number): number {
+    const state = this.state(base);
+    this.currentEntry(state);
+    const now = Date.now();
+    const epoch = Math.max(state.current, ...state.entries.map((e) => e.epoch)) + 1;
+    state.current = epoch;
+    state.entries.unshift({ epoch, startedAt: now, lastActive: now });
+    this.prune(state, maxHistory);
+    this.file.scheduleSave();
+    return epoch;
+  }
+
+  /** 切换回历史中的某个会话，epoch 不在历史中时返回 false */
+  resume(base: string, epoch: number): boolean {
+    const state = this.sessions.get(base);
+    const entry = state?.entries.find((e) => e.epoch === epoch);
+    if (!state || !entry) return false;
+    state.current = epoch;
+    entry.lastActive = Date.now();
+    this.file.scheduleSave();
+    return true;
+  }
+
+  /** 记录当前会话的活跃时间 */
+  touch(base: string): void {
+    const state = this.state(base);
+    this.currentEntry(state).lastActive = Date.now();
+    this.file.scheduleSave();
+  }
+
+  /** 当前会话空闲超过 idleMs 时开始新会话，返回新 epoch；未过期或 idleMs 为 0 时返回 null */
+  expireIfIdle(base: string, idleMs: number, maxHistory: number): number | null {
+    if (idleMs <= 0) return null;
+    const state = this.sessions.get(base);
+    const entry = state?.entries.find((e) => e.epoch === state.current);
+    if (!entry || Date.now() - entry.lastActive < idleMs) return null;
+    return this.rotate(base, maxHistory);
+  }
+
+  flush(): void {
+    this.file.flush();
+  }
+
+  private state(base: string): SessionState {
+    let state = this.sessions.get(base);
+    if (!state) {
+      state = { current: 0, entries: [] };
+      this.sessions.set(base, state);
+    }
+    return state;
+  }
+
+  /** 旧版本或首次使用时历史为空，按需补上当前会话的记录 */
+  private currentEntry(state: SessionState): SessionEntry {
+    let entry = state.entries.find((e) => e.epoch === state.current);
+    if (!entry) {
+      entry = { epoch: state.current, startedAt: Date.now(), lastActive: Date.now() };
+      state.entries.unshift(entry);
+    }
+    return entry;
+  }
+
+  /** 超出保留数量的旧会话从历史中移除，当前会话始终保留 */
+  private prune(state: SessionState, maxHistory: number): void {
+    const limit = Math.max(1, maxHistory);
+    if (state.entries.length <= limit) return;
+    const kept = state.entries.slice(0, limit);
+    if (!kept.some((e) => e.epoch === state.current)) {
+      kept[kept.length - 1] = state.entries.find((e) => e.epoch === state.current)!;
+    }
+    state.entries = kept;
+  }
+}
@@ -0,0 +1,121 @@
+// 流式回复缓冲 - 累积 delta 文本，按完整段落 / 代码块切出可发送的片段
+
+export interface StreamBufferOptions {
+  /** 非强制刷新时，单次输出片段的最小字符数 */
+  minChars: number;
+  /** 无新 delta 超过该时长（毫秒）后强制输出已完成的内容，0 表示不启用 */
+  flushMs: number;
+  onChunk: (chunk: string) => void;
+}
+
+const FENCE_RE = /^\s*(```|~~~)/;
+
+export class StreamBuffer {
+  private text = '';
+  private sentOffset = 0;
+  private lastChunk = '';
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private opts: StreamBufferOptions;
+  private _chunkCount = 0;
+
+  constructor(opts: StreamBufferOptions) {
+    this.opts = opts;
+  }
+
+  /** 已输出的片段数 */
+  get chunkCount(): number {
+    return this._chunkCount;
+  }
+
+  /**
+   * 写入 delta 文本。Gateway 的 delta 通常携带截至当前的完整文本，
+   * 若新文本不以已有文本开头则视为增量追加。
+   */
+  push(deltaText: string): void {
+    if (!deltaText) return;
+    if (deltaText.startsWith(this.text)) this.text = deltaText;
+    else this.text += deltaText;
+
+    this.emit(false);
+    this.resetFlushTimer();
+  }
+
+  /** 收到 final 后调用，返回尚未发送的剩余文本（不会与已发送片段重复） */
+  finish(finalText: string): string {
+    this.dispose();
+    if (this.sentOffset === 0) return finalText;
+
+    const sent = this.text.slice(0, this.sentOffset);
+    if (finalText.startsWith(sent)) return finalText.slice(this.sentOffset);
+
+    // final 文本与 delta 累积不一致时，以最后一个已发送片段定位
+    const idx = this.lastChunk ? finalText.lastIndexOf(this.lastChunk) : -1;
+    if (idx >= 0) return finalText.slice(idx + this.lastChunk.length);
+    return finalText.length > this.sentOffset ? finalText.slice(this.sentOffset) : '';
+  }
+
+  /** 未收到 final（如超时）时调用，返回尚未发送的全部文本 */
+  drain(): string {
+    this.dispose();
+    const rest = this.text.slice(this.sentOffset).trim();
+    this.sentOffset = this.text.length;
+    return rest;
+  }
+
+  dispose(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private resetFlushTimer(): void {
+    this.dispose();
+    if (this.opts.flushMs <= 0) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.emit(true);
+    }, this.opts.flushMs);
+  }
+
+  private emit(force: boolean): void {
+    const end = this.findBoundary(force);
+    if (end <= this.sentOffset) return;
+
+    const chunk = this.text.slice(this.sentOffset, end);
+    if (!force && chunk.trim().length < this.opts.minChars) return;
+
+    this.sentOffset = end;
+    const trimmed = chunk.trim();
+    if (!trimmed) return;
+    this.lastChunk = trimmed;
+    this._chunkCount++;
+    this.opts.onChunk(trimmed);
+  }
+
+  /**
+   * 在未发送部分中寻找最后一个安全切分点：代码块外的空行之后，或闭合代码块之后。
+   * 强制刷新时，代码块外的任意完整行末尾也可作为切分点。
+   */
+  private findBoundary(force: boolean): number {
+    let boundary = this.sentOffset;
+    let inFence = false;
+    let pos = this.sentOffset;
+
+    while (pos < this.text.length) {
+      const nl = this.text.indexOf('\n', pos);
+      if (nl < 0) break; // 最后一行尚未完成
+      const line = this.text.slice(pos, nl);
+      const lineEnd = nl + 1;
+
+      if (FENCE_RE.test(line)) {
+        inFence = !inFence;
+        if (!inFence) boundary = lineEnd;
+      } else if (!inFence && (line.trim() === '' || force)) {
+        boundary = lineEnd;
+      }
+      pos = lineEnd;
+    }
+    return boundary;
+  }
+}
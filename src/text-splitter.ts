@@ -0,0 +1,154 @@
+// 长文本切分 - 优先在段落 / 行 / 句子边界切分，跨片段的代码块自动闭合并重新打开
+
+/** 为跨片段代码块补全的开启 / 闭合行预留的长度 */
+const FENCE_RESERVE = 24;
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const SENTENCE_END_RE = /(?<=[。！？!?；;…]|[.](?=\s))/;
+const URL_RE = /https?:\/\/[^\s<>"'）)\]]+/g;
+
+/** 按 Unicode 码点计算长度（QQ 按字符计数，代理对视为一个字符） */
+export function measure(text: string): number {
+  let n = 0;
+  for (const _ of text) n++;
+  return n;
+}
+
+interface Piece {
+  text: string;
+  /** 与前一片段的连接符：行之间为换行，同一行内的句子为空 */
+  joiner: string;
+  /** 此片段开始前所处代码块的起始行，不在代码块内为 null */
+  fenceBefore: string | null;
+  isFence: boolean;
+  isBlank: boolean;
+}
+
+/** 按码点截取，保证不会切断代理对 */
+function sliceCodePoints(text: string, start: number, end?: number): string {
+  return Array.from(text).slice(start, end).join('');
+}
+
+/** 硬切分时避免落在 URL 中间：若切点位于 URL 内，则退回到 URL 之前 */
+function safeHardCut(text: string, limit: number): number {
+  const chars = Array.from(text);
+  let cut = Math.min(limit, chars.length);
+  const prefix = chars.slice(0, cut).join('');
+  const prefixUnits = prefix.length;
+  URL_RE.lastIndex = 0;
+  let m;
+  while ((m = URL_RE.exec(text)) !== null) {
+    const start = m.index;
+    const end = start + m[0].length;
+    if (start < prefixUnits && end > prefixUnits && start > 0) {
+      cut = measure(text.slice(0, start));
+      break;
+    }
+    if (start >= prefixUnits) break;
+  }
+  return cut > 0 ? cut : Math.min(limit, chars.length);
+}
+
+/** 将超长的单行拆成不超过 budget 的小段：句子 → 空白 → 硬切 */
+function splitLongLine(line: string, budget: number): string[] {
+  const out: string[] = [];
+  let cur = '';
+  const pushWord = (word: string) => {
+    if (measure(cur + word) <= budget) {
+      cur += word;
+      return;
+    }
+    if (cur) out.push(cur);
+    cur = '';
+    let rest = word;
+    while (measure(rest) > budget) {
+      const cut = safeHardCut(rest, budget);
+      out.push(sliceCodePoints(rest, 0, cut));
+      rest = sliceCodePoints(rest, cut);
+    }
+    cur = rest;
+  };
+
+  for (const sentence of line.split(SENTENCE_END_RE)) {
+    if (measure(cur + sentence) <= budget) {
+      cur += sentence;
+      continue;
+    }
+    // 句子本身过长时按空白再拆
+    for (const word of sentence.split(/(?<=\s)/)) pushWord(word);
+  }
+  if (cur) out.push(cur);
+  return out;
+}
+
+function toPieces(text: string, budget: number): Piece[] {
+  const pieces: Piece[] = [];
+  let fence: string | null = null;
+
+  for (const line of text.split('\n')) {
+    const isFence = FENCE_RE.test(line);
+    const fenceBefore = fence;
+    if (measure(line) <= budget) {
+      pieces.push({ text: line, joiner: '\n', fenceBefore, isFence, isBlank: line.trim() === '' });
+    } else {
+      splitLongLine(line, budget).forEach((part, i) => {
+        pieces.push({ text: part, joiner: i === 0 ? '\n' : '', fenceBefore, isFence: false, isBlank: false });
+      });
+    }
+    if (isFence) fence = fence ? null : line.trim();
+  }
+  return pieces;
+}
+
+function fenceAfter(piece: Piece): string | null {
+  if (!piece.isFence) return piece.fenceBefore;
+  return piece.fenceBefore ? null : piece.text.trim();
+}
+
+function renderChunk(pieces: Piece[]): string {
+  let out = '';
+  pieces.forEach((p, i) => { out += (i === 0 ? '' : p.joiner) + p.text; });
+  const opener = pieces[0].fenceBefore;
+  if (opener) out = `${opener}\n${out}`;
+  const open = fenceAfter(pieces[pieces.length - 1]);
+  // 用开启行的标记闭合（``` / ~~~ 及其长度），否则片段内代码块不成对
+  if (open) out += `\n${open.match(/^(`+|~+)/)![1]}`;
+  return out.replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * 将文本切分为不超过 maxLength 个字符的片段。
+ * 优先在代码块外的空行（段落）处切分，其次是行、句子，最后才硬切。
+ */
+export function splitText(text: string, maxLength: number): string[] {
+  if (maxLength <= 0 || measure(text) <= maxLength) return [text];
+  const budget = Math.max(maxLength - FENCE_RESERVE, Math.ceil(maxLength / 2));
+  const pieces = toPieces(text, budget);
+
+  const chunks: string[] = [];
+  let cur: Piece[] = [];
+  let curLen = 0;
+
+  const pieceLen = (p: Piece, first: boolean) => measure(p.text) + (first ? 0 : p.joiner.length);
+
+  for (const piece of pieces) {
+    const len = pieceLen(piece, cur.length === 0);
+    if (cur.length > 0 && curLen + len > budget) {
+      // 在后半部分寻找代码块外的空行，优先按段落切分
+      let cutAt = cur.length;
+      let acc = 0;
+      for (let i = 0; i < cur.length; i++) {
+        acc += pieceLen(cur[i], i === 0);
+        if (cur[i].isBlank && !cur[i].fenceBefore && acc >= budget / 2) cutAt = i + 1;
+      }
+      chunks.push(renderChunk(cur.slice(0, cutAt)));
+      cur = cur.slice(cutAt);
+      curLen = cur.reduce((sum, p, i) => sum + pieceLen(p, i === 0), 0);
+    }
+    cur.push(piece);
+    curLen += pieceLen(piece, cur.length === 1);
+  }
+  if (cur.length > 0) chunks.push(renderChunk(cur));
+
+  return chunks.filter((c) => c.trim().length > 0);
+}
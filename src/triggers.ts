@@ -0,0 +1,86 @@
+// 群聊触发规则 - @bot、昵称前缀、关键词前缀、正则、回复 bot 消息
+
+import type { TriggerRules, TriggersConfig } from './types';
+
+export type TriggerKind = 'at' | 'nickname' | 'keyword' | 'regex' | 'reply';
+
+export interface TriggerInput {
+  /** 已去除 @bot 的消息文本 */
+  text: string;
+  isAtBot: boolean;
+  /** 仅在前面的规则都未命中时才调用（可能需要请求 get_msg） */
+  isReplyToBot: () => Promise<boolean>;
+}
+
+export interface TriggerMatch {
+  kind: TriggerKind;
+  /** 去除命中前缀后发给 Agent 的文本 */
+  text: string;
+}
+
+// 昵称之后常见的分隔符："莲莲，帮我…" / "莲莲: …"
+const NICKNAME_SEPARATOR = /^[\s,，:：、!！~～]+/;
+
+/** 合并全局规则与群级覆盖，群级字段优先 */
+export function resolveTriggerRules(config: TriggersConfig, groupId?: number | string): TriggerRules {
+  const base: TriggerRules = {
+    at: config.at,
+    nicknames: config.nicknames,
+    keywords: config.keywords,
+    regexes: config.regexes,
+    replyToBot: config.replyToBot,
+  };
+  const override = groupId != null ? config.groups?.[String(groupId)] : undefined;
+  return override ? { ...base, ...override } : base;
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+/** 支持 "pattern" 与 "/pattern/flags" 两种写法，非法表达式返回 null */
+function compileRegex(source: string): RegExp | null {
+  if (regexCache.has(source)) return regexCache.get(source)!;
+  let re: RegExp | null = null;
+  try {
+    const literal = source.match(/^\/(.+)\/([a-z]*)$/);
+    re = literal ? new RegExp(literal[1], literal[2].replace('g', '')) : new RegExp(source);
+  } catch {
+    re = null;
+  }
+  regexCache.set(source, re);
+  return re;
+}
+
+export async function matchTrigger(rules: TriggerRules, input: TriggerInput): Promise<TriggerMatch | null> {
+  const text = input.text.trim();
+
+  if (rules.at && input.isAtBot) return { kind: 'at', text };
+
+  for (const nickname of rules.nicknames) {
+    if (!nickname || !text.startsWith(nickname)) continue;
+    // 昵称后须为分隔符或消息结尾，避免 "莲莲" 误触发 "莲莲子说..."
+    const rest = text.slice(nickname.length);
+    if (rest && !NICKNAME_SEPARATOR.test(rest)) continue;
+    return { kind: 'nickname', text: rest.replace(NICKNAME_SEPARATOR, '') };
+  }
+
+  for (const keyword of rules.keywords) {
+    if (!keyword || !text.startsWith(keyword)) continue;
+    // 以英文字母 / 数字结尾的关键词须在词边界处结束，避免 "bot" 误触发 "bottle..."
+    const rest = text.slice(keyword.length);
+    if (rest && /\w$/.test(keyword) && !NICKNAME_SEPARATOR.test(rest)) continue;
+    return { kind: 'keyword', text: rest.replace(NICKNAME_SEPARATOR, '').trim() };
+  }
+
+  for (const source of rules.regexes) {
+    const re = compileRegex(source);
+    const m = re ? text.match(re) : null;
+    if (!m) continue;
+    // 仅当匹配位于开头时视为前缀并去除
+    const stripped = m.index === 0 ? text.slice(m[0].length).replace(NICKNAME_SEPARATOR, '') : text;
+    return { kind: 'regex', text: stripped };
+  }
+
+  if (rules.replyToBot && await input.isReplyToBot()) return { kind: 'reply', text };
+
+  return null;
+}
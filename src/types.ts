@@ -7,19 +7,81 @@ export interface PluginConfig {
   behavior: {
     privateChat: boolean;
     groupAtOnly: boolean;
-    adminQQ: number[];
-    commandAdminOnly: boolean;
-    userWhitelist: number[];
     groupWhitelist: number[];
-    groupBypassUserWhitelist: boolean;
-    userBlacklist: number[];
+    /** 停用的群，优先于群白名单 */
+    groupBlacklist: number[];
     debounceMs: number;
     resolveReply: boolean;
     replyMaxDepth: number;
+    resolveForward: boolean;
+    forwardMaxItems: number;
+    forwardMaxChars: number;
+    forwardMaxDepth: number;
     groupSessionMode: 'user' | 'shared';
     replyAtSender: boolean;
     replyQuoteMessage: boolean;
+    /** 是否允许 Agent 回复中的 @全体成员 生效 */
+    allowAtAll: boolean;
+    /** 同一群 / 私聊两次发送的最小间隔 */
     sendIntervalMs: number;
+    /** 所有会话合计的最小发送间隔 */
+    sendGlobalIntervalMs: number;
+    sendMaxRetries: number;
+    sendRetryBaseMs: number;
+    /** 所有会话合计同时运行的 Agent 数上限 */
+    maxConcurrent: number;
+    /** 会话已有运行时，后续消息逐条排队（queue）或合并为一条（merge） */
+    sessionQueueMode: SessionQueueMode;
+    /** 排队提示，{n} 为前面的运行数，留空不提示 */
+    queueNotice: string;
+    splitMaxLength: number;
+    /** 分段序号格式，{i} 为当前序号，{n} 为总数，留空不加序号 */
+    splitPrefixFormat: string;
+    /** 切分后超过该条数时改为合并转发发送，0 表示不启用 */
+    forwardReplyThreshold: number;
+    forwardReplyNotice: string;
+    streamReply: boolean;
+    streamMinChars: number;
+    streamFlushMs: number;
+  };
+  triggers: TriggersConfig;
+  format: {
+    /** Agent 回复的 Markdown 渲染模式 */
+    mode: ReplyFormat;
+    /** 按群号覆盖的渲染模式 */
+    groups: Record<string, ReplyFormat>;
+  };
+  groupContext: {
+    /** 开启群上下文的群号（按群开启，留空表示不记录） */
+    groups: number[];
+    maxMessages: number;
+    maxMinutes: number;
+    maxChars: number;
+  };
+  permissions: PermissionsConfig;
+  quota: {
+    enabled: boolean;
+    /** 以下均为滑动窗口内的请求次数上限，0 表示不限制 */
+    userPerHour: number;
+    userPerDay: number;
+    groupPerHour: number;
+    groupPerDay: number;
+    globalPerHour: number;
+    globalPerDay: number;
+    /** 超限提示，可用 {scope} {window} {limit} {reset} */
+    exceededMessage: string;
+  };
+  usage: {
+    /** 记录 final 事件中的 token / 费用信息 */
+    enabled: boolean;
+    /** 统计数据保留天数 */
+    retainDays: number;
+    /** 每日 token 额度，0 表示不限制 */
+    userDailyTokens: number;
+    groupDailyTokens: number;
+    globalDailyTokens: number;
+    /** 额度用尽提示，可用 {scope} {limit} */
+    budgetExceededMessage: string;
   };
   media: {
     cacheEnabled: boolean;
@@ -27,16 +89,129 @@ export interface PluginConfig {
     cachePath: string;
     cacheMaxSizeMB: number;
     cacheTTLMinutes: number;
+    /** MEDIA: 指令允许发送的本地目录 */
+    sendAllowedRoots: string[];
+    sendMaxImageMB: number;
+    sendMaxFileMB: number;
+    sendAllowRemote: boolean;
+  };
+  sessions: {
+    /** 私聊 / 群聊会话空闲超过该时长（分钟）后自动开始新会话，0 表示不过期 */
+    privateIdleMinutes: number;
+    groupIdleMinutes: number;
+    /** 每个会话保留的历史数（/sessions 列出、/resume 可切换） */
+    maxHistory: number;
+    /** 会话关联：会话基址 → 规范基址，如 {"qq-g123456-10001": "qq-10001"}；仅限同一用户，不可涉及群共享会话 */
+    links: Record<string, string>;
   };
+  agents: AgentsConfig;
+  /** 按群号覆盖的 behavior / media 字段 */
+  groups: Record<string, GroupOverrides>;
+}
+
+export interface AgentsConfig {
+  /** 默认 Agent，留空使用 Gateway 的默认 Agent */
+  default: string;
+  /** 普通用户可通过 /agent 切换的 Agent，管理员不受限制 */
+  available: string[];
+  /** 按群号指定 Agent */
+  groups: Record<string, string>;
+  /** 按 QQ 指定 Agent，优先于群 */
+  users: Record<string, string>;
+  /** 消息前缀 → Agent，如 {"#coder": "coder"}，仅对该条消息生效，前缀会被去除 */
+  prefixes: Record<string, string>;
+}
+
+/** 群级配置覆盖，未填写的字段沿用全局；发送限速、全局并发、媒体缓存与群开关等全局字段不可覆盖 */
+export interface GroupOverrides {
+  behavior?: Partial<PluginConfig['behavior']>;
+  media?: Partial<PluginConfig['media']>;
+}
+
+export type SessionQueueMode = 'queue' | 'merge';
+
+/** 角色由低到高：banned < user < trusted < admin < owner */
+export type Role = 'owner' | 'admin' | 'trusted' | 'user' | 'banned';
+
+/** 功能授权：media 发送图片/文件给 Agent，model 切换模型类指令，quotaExempt 不受配额与 token 额度限制 */
+export type PermissionFeature = 'media' | 'model' | 'quotaExempt';
+
+export interface RoleGrant {
+  /** 允许的 / 指令（含 Gateway 指令与本地指令），"*" 表示全部 */
+  commands: string[];
+  /** 允许的功能，"*" 表示全部 */
+  features: Array<PermissionFeature | '*'>;
+}
+
+export type GrantedRole = Exclude<Role, 'banned'>;
+
+export interface RoleMembers {
+  admins: number[];
+  trusted: number[];
+  /** 显式的普通用户，defaultRole 为 banned 时相当于白名单 */
+  users: number[];
+  banned: number[];
+}
+
+export interface GroupPermissionRules extends Partial<RoleMembers> {
+  defaultRole?: 'user' | 'banned';
+  groupOwnerRole?: Role;
+  groupAdminRole?: Role;
+  /** 按角色覆盖授权，未填写的字段沿用全局 */
+  grants?: Partial<Record<GrantedRole, Partial<RoleGrant>>>;
+}
+
+export interface PermissionsConfig extends RoleMembers {
+  /** 插件所有者：全局最高权限，接收告警通知；不可按群设置 */
+  owners: number[];
+  /** 未列出用户的角色 */
+  defaultRole: 'user' | 'banned';
+  /** 群主 / 群管理员（event.sender.role）自动获得的角色 */
+  groupOwnerRole: Role;
+  groupAdminRole: Role;
+  /** 各角色的授权，高级角色自动包含低级角色的授权 */
+  grants: Record<GrantedRole, RoleGrant>;
+  /** 按群号覆盖的规则 */
+  groups: Record<string, GroupPermissionRules>;
+  /** 临时封禁的到期时间（QQ → 毫秒时间戳），到期后自动从 banned 移除 */
+  banExpiry: Record<string, number>;
+}
+
+export type ReplyFormat = 'raw' | 'plain' | 'light';
+
+export interface TriggerRules {
+  /** @bot 触发 */
+  at: boolean;
+  /** 以 bot 昵称开头触发，如 "莲莲，帮我…" */
+  nicknames: string[];
+  /** 以关键词开头触发 */
+  keywords: string[];
+  /** 正则匹配触发，支持 "/pattern/flags" 写法 */
+  regexes: string[];
+  /** 回复 bot 发出的消息时触发 */
+  replyToBot: boolean;
+}
+
+export interface TriggersConfig extends TriggerRules {
+  /** 按群号覆盖的触发规则 */
+  groups: Record<string, Partial<TriggerRules>>;
 }
 
 export interface ExtractedMedia {
   type: 'image' | 'file' | 'voice' | 'video';
   url?: string;
   file_id?: string;
+  /** 通过 get_file 得到的本地路径（NapCat 与插件同机时） */
+  path?: string;
   name?: string;
 }
 
+/** 合并转发引用：id 需通过 get_forward_msg 获取，content 为内联的节点列表 */
+export interface ForwardRef {
+  id?: string;
+  content?: any[];
+}
+
 export interface SavedMedia {
   type: string;
   path: string | null;
@@ -50,12 +225,27 @@ export interface ExtractedMessage {
   extractedMedia: ExtractedMedia[];
 }
 
+export interface MessageSegment {
+  type: string;
+  data: Record<string, any>;
+}
+
+/** 消息段解析结果：文本与媒体，以及需要进一步获取的引用 / 合并转发 */
+export interface ParsedMessage extends ExtractedMessage {
+  replyMessageId: string | null;
+  forwards: ForwardRef[];
+}
+
 export interface ChatEventPayload {
   sessionKey: string;
   runId: string;
   state: 'delta' | 'final' | 'aborted' | 'error';
   message?: string | MessageContent;
   errorMessage?: string;
+  /** final 事件附带的用量信息（字段命名随网关版本不同） */
+  usage?: Record<string, unknown>;
+  cost?: unknown;
+  model?: string;
 }
 
 export interface MessageContent {
@@ -63,6 +253,8 @@ export interface MessageContent {
   content?: ContentBlock[] | ContentBlock;
   text?: string;
   stopReason?: string;
+  usage?: Record<string, unknown>;
+  model?: string;
 }
 
 export interface ContentBlock {
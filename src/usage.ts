@@ -0,0 +1,197 @@
+// 用量统计 - 解析 final 事件中的 token / 费用信息，按用户 / 群 / 会话按天累计并持久化
+
+import { JsonFile } from './json-file';
+import type { ChatEventPayload } from './types';
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** 网关提供时记录，单位与网关一致（通常为美元） */
+  cost: number;
+  model?: string;
+}
+
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  models: Record<string, number>;
+}
+
+export interface UsageSubject {
+  userId: number | string;
+  groupId?: number | string;
+  sessionKey: string;
+  /** 用户昵称，仅用于排行展示 */
+  nickname?: string;
+}
+
+export type UsageScopeKind = 'user' | 'group' | 'session' | 'global';
+
+function num(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function pick(obj: any, keys: string[]): unknown {
+  for (const key of keys) {
+    if (obj?.[key] != null) return obj[key];
+  }
+  return undefined;
+}
+
+/**
+ * 从 final 事件中提取用量。兼容常见字段命名：
+ * usage 位于 payload 或 payload.message 上，input/output 可为 inputTokens、input_tokens、prompt_tokens 等，
+ * cost 可为数字或 { total }。没有任何 token 信息时返回 null。
+ */
+export function parseUsage(payload: ChatEventPayload): ChatUsage | null {
+  const message = typeof payload.message === 'object' ? payload.message : undefined;
+  const usage: any = payload.usage ?? message?.usage;
+  if (!usage || typeof usage !== 'object') return null;
+
+  const inputTokens = num(pick(usage, ['inputTokens', 'input_tokens', 'input', 'promptTokens', 'prompt_tokens']))
+    + num(pick(usage, ['cacheReadTokens', 'cache_read_input_tokens', 'cacheRead']))
+    + num(pick(usage, ['cacheWriteTokens', 'cache_creation_input_tokens', 'cacheWrite']));
+  const outputTokens = num(pick(usage, ['outputTokens', 'output_tokens', 'output', 'completionTokens', 'completion_tokens']));
+  const totalTokens = num(pick(usage, ['totalTokens', 'total_tokens', 'total'])) || inputTokens + outputTokens;
+  if (totalTokens === 0) return null;
+
+  const rawCost: any = pick(usage, ['cost', 'costUsd', 'cost_usd']) ?? payload.cost;
+  const cost = typeof rawCost === 'object' ? num(rawCost?.total) : num(rawCost);
+  const model = pick(usage, ['model']) ?? payload.model ?? message?.model;
+
+  return { inputTokens, outputTokens, totalTokens, cost, model: model ? String(model) : undefined };
+}
+
+function emptyTotals(): UsageTotals {
+  return { runs: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, models: {} };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.runs += source.runs;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.totalTokens += source.totalTokens;
+  target.cost += source.cost;
+  for (const [model, tokens] of Object.entries(source.models)) {
+    target.models[model] = (target.models[model] || 0) + tokens;
+  }
+}
+
+/** 本地日期 YYYY-MM-DD，用于按天统计与每日额度 */
+export function dayKey(time = Date.now()): string {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+export class UsageStore {
+  /** day → scopeKey → totals */
+  private days = new Map<string, Map<string, UsageTotals>>();
+  private names = new Map<string, string>();
+  private file = new JsonFile(() => {
+    const days: Record<string, Record<string, UsageTotals>> = {};
+    for (const [day, bucket] of this.days) days[day] = Object.fromEntries(bucket);
+    return { days, names: Object.fromEntries(this.names) };
+  });
+
+  load(filePath: string | null): void {
+    this.days.clear();
+    this.names.clear();
+    const data = this.file.open(filePath);
+    for (const [day, scopes] of Object.entries<Record<string, UsageTotals>>(data?.days || {})) {
+      const bucket = new Map<string, UsageTotals>();
+      for (const [key, totals] of Object.entries(scopes)) {
+        bucket.set(key, { ...emptyTotals(), ...totals, models: { ...totals?.models } });
+      }
+      this.days.set(day, bucket);
+    }
+    for (const [key, name] of Object.entries<string>(data?.names || {})) this.names.set(key, name);
+  }
+
+  record(subject: UsageSubject, usage: ChatUsage, retainDays: number): void {
+    const day = dayKey();
+    let bucket = this.days.get(day);
+    if (!bucket) {
+      bucket = new Map();
+      this.days.set(day, bucket);
+    }
+    const delta: UsageTotals = {
+      runs: 1,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+      cost: usage.cost,
+      models: usage.model ? { [usage.model]: usage.totalTokens } : {},
+    };
+    for (const key of this.scopeKeys(subject)) {
+      const totals = bucket.get(key) || emptyTotals();
+      addTotals(totals, delta);
+      bucket.set(key, totals);
+    }
+    if (subject.nickname) this.names.set(`user:${subject.userId}`, subject.nickname);
+    this.prune(retainDays);
+    this.file.scheduleSave();
+  }
+
+  /** 最近 days 天（含今天）某个范围的累计 */
+  totals(scope: UsageScopeKind, id: number | string | null, days = 1): UsageTotals {
+    const key = scope === 'global' ? 'global' : `${scope}:${id}`;
+    const out = emptyTotals();
+    for (const day of this.recentDays(days)) {
+      const totals = this.days.get(day)?.get(key);
+      if (totals) addTotals(out, totals);
+    }
+    return out;
+  }
+
+  /** 最近 days 天按 token 排名的用户 */
+  topUsers(days: number, limit: number): Array<{ userId: string; name?: string; totals: UsageTotals }> {
+    const merged = new Map<string, UsageTotals>();
+    for (const day of this.recentDays(days)) {
+      for (const [key, totals] of this.days.get(day) || []) {
+        if (!key.startsWith('user:')) continue;
+        const t = merged.get(key) || emptyTotals();
+        addTotals(t, totals);
+        merged.set(key, t);
+      }
+    }
+    return [...merged.entries()]
+      .sort((a, b) => b[1].totalTokens - a[1].totalTokens)
+      .slice(0, limit)
+      .map(([key, totals]) => ({ userId: key.slice('user:'.length), name: this.names.get(key), totals }));
+  }
+
+  flush(): void {
+    this.file.flush();
+  }
+
+  private scopeKeys(subject: UsageSubject): string[] {
+    const keys = [`user:${subject.userId}`, `session:${subject.sessionKey}`, 'global'];
+    if (subject.groupId != null) keys.push(`group:${subject.groupId}`);
+    return keys;
+  }
+
+  private recentDays(days: number): string[] {
+    const out: string[] = [];
+    for (let i = 0; i < Math.max(1, days); i++) out.push(dayKey(Date.now() - i * 24 * 3600 * 1000));
+    return out;
+  }
+
+  private prune(retainDays: number): void {
+    const keep = new Set(this.recentDays(Math.max(1, retainDays)));
+    for (const day of this.days.keys()) {
+      if (!keep.has(day)) this.days.delete(day);
+    }
+  }
+}